@@ -15,6 +15,17 @@ const nextConfig = {
       },
     ],
   },
+  // Map tile settings read in the browser, see src/lib/tile-providers.ts
+  // Tile URLs carry the Mapbox token, so use a public (pk.) token restricted to the app's URL
+  env: {
+    MAPBOX_ACCESS_TOKEN: process.env.MAPBOX_ACCESS_TOKEN ?? '',
+    LOCAL_TILE_URL: process.env.LOCAL_TILE_URL ?? '',
+    LOCAL_TILE_ATTRIBUTION: process.env.LOCAL_TILE_ATTRIBUTION ?? '',
+  },
+  experimental: {
+    // Starts the alert subscription scheduler, see src/instrumentation.ts
+    instrumentationHook: true,
+  },
   // Enable static exports if needed
   // output: 'export',
 }
@@ -0,0 +1,173 @@
+/**
+ * Service worker for offline use
+ * - App shell: pages are network-first with the cached page as fallback; hashed Next.js assets are cache-first
+ * - /api/ebird: network-first, keeping the last successful response per query for use offline
+ *   (the session route is left to the network so key status is never stale)
+ * - OpenStreetMap tiles: only tiles the user has already viewed are kept, capped in number and age
+ *   as the tile usage policy asks (no prefetching or bulk downloads)
+ */
+
+const CACHE_VERSION = 'v2'
+const SHELL_CACHE = `shell-${CACHE_VERSION}`
+const API_CACHE = `ebird-api-${CACHE_VERSION}`
+const TILE_CACHE = `osm-tiles-${CACHE_VERSION}`
+
+// Marks a response served from this worker's cache; the page shows results "as of" this time
+const CACHED_AT_HEADER = 'X-SW-Cached-At'
+
+const SHELL_URLS = [
+  '/',
+  '/manifest.webmanifest',
+  '/pin.svg',
+  'https://unpkg.com/leaflet@1.9.4/dist/leaflet.css',
+]
+
+const MAX_API_ENTRIES = 100
+const MAX_TILES = 1000
+const TILE_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then(cache => cache.addAll(SHELL_URLS))
+      .then(() => self.skipWaiting())
+  )
+})
+
+self.addEventListener('activate', (event) => {
+  const current = [SHELL_CACHE, API_CACHE, TILE_CACHE]
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => !current.includes(key)).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  )
+})
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event
+  if (request.method !== 'GET') return
+
+  const url = new URL(request.url)
+  if (url.origin === self.location.origin) {
+    if (url.pathname === '/api/ebird') {
+      event.respondWith(networkFirstApi(event))
+    } else if (url.pathname.startsWith('/_next/static/')) {
+      event.respondWith(cacheFirst(request, SHELL_CACHE))
+    } else if (request.mode === 'navigate') {
+      event.respondWith(networkFirstPage(request))
+    }
+  } else if (/(^|\.)tile\.openstreetmap\.org$/.test(url.hostname)) {
+    event.respondWith(cachedTile(event))
+  } else if (SHELL_URLS.includes(request.url)) {
+    event.respondWith(cacheFirst(request, SHELL_CACHE))
+  }
+})
+
+/**
+ * Copy a response, adding the time it was cached
+ */
+async function stamp(response) {
+  const headers = new Headers(response.headers)
+  headers.set(CACHED_AT_HEADER, new Date().toISOString())
+  return new Response(await response.blob(), { status: response.status, statusText: response.statusText, headers })
+}
+
+/**
+ * Delete the oldest entries of a cache beyond a limit
+ * Cache keys come back in insertion order, and entries are re-inserted on update
+ */
+async function trimCache(cacheName, maxEntries) {
+  const cache = await caches.open(cacheName)
+  const keys = await cache.keys()
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - maxEntries)).map(key => cache.delete(key)))
+}
+
+/**
+ * Store a response, moving it to the end of the cache order
+ */
+async function putStamped(cacheName, request, response) {
+  const cache = await caches.open(cacheName)
+  await cache.delete(request)
+  await cache.put(request, await stamp(response))
+}
+
+/**
+ * Serve from the cache, fetching and caching on a miss
+ */
+async function cacheFirst(request, cacheName) {
+  const cached = await caches.match(request)
+  if (cached) return cached
+
+  const response = await fetch(request)
+  if (response.ok) {
+    const cache = await caches.open(cacheName)
+    await cache.put(request, response.clone())
+  }
+  return response
+}
+
+/**
+ * Load pages from the network, falling back to the cached app shell when offline
+ * Search and hash state live in the URL, so any cached copy of the page will do
+ */
+async function networkFirstPage(request) {
+  try {
+    const response = await fetch(request)
+    if (response.ok) {
+      const cache = await caches.open(SHELL_CACHE)
+      await cache.put('/', response.clone())
+    }
+    return response
+  } catch (error) {
+    const cached = await caches.match('/')
+    if (cached) return cached
+    throw error
+  }
+}
+
+/**
+ * Query the proxy, keeping each successful response for use offline
+ * The response is returned straight away; caching it finishes in the background
+ * Offline, the last response for the same query is served with the time it was stored
+ */
+async function networkFirstApi(event) {
+  const { request } = event
+  try {
+    const response = await fetch(request)
+    if (response.ok) {
+      event.waitUntil(
+        putStamped(API_CACHE, request, response.clone()).then(() => trimCache(API_CACHE, MAX_API_ENTRIES))
+      )
+    }
+    return response
+  } catch (error) {
+    const cached = await caches.match(request, { cacheName: API_CACHE })
+    if (cached) return cached
+    throw error
+  }
+}
+
+/**
+ * Serve a tile the user viewed in the last week from the cache, otherwise fetch it
+ * An older cached tile is still better than a blank map when offline
+ */
+async function cachedTile(event) {
+  const { request } = event
+  const cached = await caches.match(request, { cacheName: TILE_CACHE })
+  const cachedAt = cached ? Date.parse(cached.headers.get(CACHED_AT_HEADER) || '') : NaN
+  if (cached && Date.now() - cachedAt < TILE_MAX_AGE_MS) return cached
+
+  try {
+    const response = await fetch(request)
+    // Opaque responses cannot be inspected and take up far more quota than they appear to
+    if (response.ok && response.type !== 'opaque') {
+      event.waitUntil(
+        putStamped(TILE_CACHE, request, response.clone()).then(() => trimCache(TILE_CACHE, MAX_TILES))
+      )
+    }
+    return response
+  } catch (error) {
+    if (cached) return cached
+    throw error
+  }
+}
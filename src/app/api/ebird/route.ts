@@ -1,66 +1,151 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { EBIRD_API_BASE, EBIRD_API_KEY_HEADER } from '@/lib/ebird-transport'
+import { validateEndpointRequest } from '@/lib/ebird-endpoints'
+import { markApiKeyVerified, resolveApiKey } from '@/lib/server/api-key-session'
+import { CACHE_POLICIES, buildCacheKey, getOrFetch } from '@/lib/server/ebird-cache'
+import { checkProxyRateLimit } from '@/lib/server/rate-limiter'
+import { EBirdApiError, EBirdRateLimitError, errorFromStatus, parseRetryAfter } from '@/lib/ebird-errors'
+import { fetchWithRetry } from '@/lib/fetch-with-retry'
 
-const EBIRD_API_BASE = 'https://api.ebird.org/v2'
+const UPSTREAM_TIMEOUT_MS = 10_000
+const UPSTREAM_RETRIES = 2
+
+/**
+ * Build the JSON error response for a typed eBird error
+ * The `code` field lets the client rebuild the same error class
+ */
+function errorResponse(error: EBirdApiError, headers: Record<string, string> = {}) {
+  const retryAfter = error instanceof EBirdRateLimitError ? error.retryAfterSeconds : undefined
+  return NextResponse.json(
+    {
+      error: error.message,
+      code: error.code,
+      retryAfter,
+      details: 'details' in error ? error.details : undefined,
+    },
+    {
+      status: error.status ?? 500,
+      headers: retryAfter !== undefined ? { ...headers, 'Retry-After': String(retryAfter) } : headers,
+    }
+  )
+}
 
 /**
  * Proxy API route for eBird API requests
  * Handles CORS issues and provides consistent error handling
+ * Only allowlisted endpoints with valid path segments and query parameters are forwarded
+ * The API key comes from the X-eBirdApiToken header, the session cookie or EBIRD_API_KEY
+ * Successful responses are cached per endpoint and reported through the X-Cache header
+ * Header keys eBird has not accepted yet always go upstream, so a junk key is never answered from the cache
+ * Callers are rate limited with a token bucket; upstream 429/5xx responses are retried with backoff
  */
 export async function GET(request: NextRequest) {
   const { searchParams } = new URL(request.url)
   const endpoint = searchParams.get('endpoint')
-  const apiKey = searchParams.get('apiKey')
 
   // Validate required parameters
   if (!endpoint) {
     return NextResponse.json({ error: 'Endpoint parameter is required' }, { status: 400 })
   }
 
-  if (!apiKey) {
-    return NextResponse.json({ error: 'API key is required' }, { status: 400 })
+  // Keys in the query string leak into browser history and access logs
+  if (searchParams.has('apiKey')) {
+    return NextResponse.json(
+      { error: `API keys must not be sent in the query string. Use the ${EBIRD_API_KEY_HEADER} header instead.` },
+      { status: 400 }
+    )
   }
 
-  try {
+  // Validate against the endpoint allowlist before touching the upstream API
+  const query: Record<string, string> = {}
+  searchParams.forEach((value, key) => {
+    if (key !== 'endpoint') {
+      query[key] = value
+    }
+  })
+
+  const validation = validateEndpointRequest(endpoint, query)
+  if (!validation.success) {
+    return NextResponse.json({ error: validation.error, issues: validation.issues }, { status: 400 })
+  }
+
+  const rateLimit = checkProxyRateLimit(request)
+  if (!rateLimit.allowed) {
+    return errorResponse(
+      new EBirdRateLimitError(rateLimit.retryAfterSeconds, 'Too many requests. Please slow down.'),
+      { 'X-RateLimit-Remaining': '0' }
+    )
+  }
+
+  const resolvedKey = resolveApiKey(request)
+  if (!resolvedKey) {
+    return NextResponse.json({ error: 'API key is required' }, { status: 401 })
+  }
+
+  const cacheKey = buildCacheKey(validation.path, validation.query)
+  const apiKey = resolvedKey.apiKey
+
+  const fetchUpstream = async () => {
     // Construct the eBird API URL
-    const url = new URL(`${EBIRD_API_BASE}${endpoint}`)
+    const url = new URL(`${EBIRD_API_BASE}${validation.path}`)
     
-    // Copy all search params except endpoint and apiKey to the eBird API request
-    searchParams.forEach((value, key) => {
-      if (key !== 'endpoint' && key !== 'apiKey') {
-        url.searchParams.append(key, value)
-      }
+    // Forward the validated and normalized query parameters
+    Object.entries(validation.query).forEach(([key, value]) => {
+      url.searchParams.append(key, value)
     })
 
     // Make request to eBird API
-    const response = await fetch(url.toString(), {
-      headers: {
-        'X-eBirdApiToken': apiKey,
-        'User-Agent': 'eBird-Rare-Alerts/1.0',
+    const response = await fetchWithRetry(
+      url.toString(),
+      {
+        headers: {
+          [EBIRD_API_KEY_HEADER]: apiKey,
+          'User-Agent': 'eBird-Rare-Alerts/1.0',
+        },
       },
-    })
+      { timeoutMs: UPSTREAM_TIMEOUT_MS, retries: UPSTREAM_RETRIES }
+    )
 
-    // Handle error responses
+    // Thrown rather than returned so failed responses are never cached
     if (!response.ok) {
-      const errorText = await response.text()
-      console.error('eBird API Error:', response.status, errorText)
-      
-      return NextResponse.json(
-        { 
-          error: `eBird API error: ${response.status} ${response.statusText}`,
-          details: errorText
-        }, 
-        { status: response.status }
+      throw errorFromStatus(
+        response.status,
+        response.statusText,
+        await response.text(),
+        parseRetryAfter(response.headers.get('Retry-After'))
       )
     }
 
+    return response.json()
+  }
+
+  try {
+    const { data, status } = resolvedKey.verified
+      ? await getOrFetch(cacheKey, CACHE_POLICIES[validation.id], fetchUpstream)
+      : { data: await fetchUpstream(), status: 'MISS' as const }
+
+    if (!resolvedKey.verified) {
+      markApiKeyVerified(apiKey)
+    }
+
     // Return successful response
-    const data = await response.json()
-    return NextResponse.json(data)
+    return NextResponse.json(data, {
+      headers: {
+        'X-Cache': status,
+        'X-RateLimit-Remaining': String(rateLimit.remaining),
+      },
+    })
   } catch (error) {
+    // Handle error responses
+    if (error instanceof EBirdApiError) {
+      console.error('eBird API Error:', error.status, error.message)
+      return errorResponse(error)
+    }
+
     console.error('Proxy error:', error)
     return NextResponse.json(
       { error: 'Failed to fetch data from eBird API' }, 
       { status: 500 }
     )
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  SESSION_COOKIE_NAME,
+  createApiKeySession,
+  deleteApiKeySession,
+  resolveApiKey,
+  toApiKeySession,
+  verifyApiKey,
+} from '@/lib/server/api-key-session'
+import { getServerApiKey } from '@/lib/server/ebird-client'
+
+const cookieOptions = {
+  httpOnly: true,
+  sameSite: 'lax' as const,
+  secure: process.env.NODE_ENV === 'production',
+  path: '/api',
+}
+
+/**
+ * Report which API key the proxy will use for this browser
+ * Returns a session reference only; the key itself is never sent back
+ */
+export async function GET(request: NextRequest) {
+  const resolved = resolveApiKey(request)
+  return NextResponse.json({ session: resolved ? toApiKeySession(resolved) : null })
+}
+
+/**
+ * Register a user-supplied API key
+ * The key is validated against eBird, stored server-side and referenced by an httpOnly cookie
+ * With `remember`, the session and cookie last REMEMBERED_SESSION_TTL_SECONDS instead of a week
+ */
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => null)
+  const apiKey = typeof body?.apiKey === 'string' ? body.apiKey.trim() : ''
+  const remember = body?.remember === true
+
+  if (!apiKey) {
+    return NextResponse.json({ error: 'API key is required' }, { status: 400 })
+  }
+
+  try {
+    const isValid = await verifyApiKey(apiKey)
+    if (!isValid) {
+      return NextResponse.json({ error: 'Invalid API key' }, { status: 401 })
+    }
+  } catch (error) {
+    console.error('API key verification error:', error)
+    return NextResponse.json({ error: 'Failed to validate API key with eBird' }, { status: 502 })
+  }
+
+  const previousId = request.cookies.get(SESSION_COOKIE_NAME)?.value
+  if (previousId) {
+    deleteApiKeySession(previousId)
+  }
+
+  const { id, expiresAt, maxAgeSeconds } = createApiKeySession(apiKey, remember)
+  const response = NextResponse.json({
+    session: toApiKeySession({ apiKey, source: 'session', expiresAt, remembered: remember, verified: true }),
+  })
+  response.cookies.set(SESSION_COOKIE_NAME, id, { ...cookieOptions, maxAge: maxAgeSeconds })
+  return response
+}
+
+/**
+ * Forget the registered API key and clear the session cookie
+ * Responds with the server key reference if one is configured
+ */
+export async function DELETE(request: NextRequest) {
+  const sessionId = request.cookies.get(SESSION_COOKIE_NAME)?.value
+  if (sessionId) {
+    deleteApiKeySession(sessionId)
+  }
+
+  const serverKey = getServerApiKey()
+  const response = NextResponse.json({
+    session: serverKey ? toApiKeySession({ apiKey: serverKey, source: 'server', verified: true }) : null,
+  })
+  response.cookies.set(SESSION_COOKIE_NAME, '', { ...cookieOptions, maxAge: 0 })
+  return response
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorizeSubscriptionRequest } from '@/lib/server/subscription-auth'
+import { getSubscriptionStore } from '@/lib/server/subscription-store'
+
+interface RouteContext {
+  params: { id: string }
+}
+
+/**
+ * Get one alert subscription, including when it last ran and any delivery error
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const unauthorized = authorizeSubscriptionRequest(request)
+  if (unauthorized) return unauthorized
+
+  const subscription = await getSubscriptionStore().get(params.id)
+  if (!subscription) {
+    return NextResponse.json({ error: 'Subscription not found' }, { status: 404 })
+  }
+  return NextResponse.json({ subscription })
+}
+
+/**
+ * Delete an alert subscription and its record of delivered sightings
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const unauthorized = authorizeSubscriptionRequest(request)
+  if (unauthorized) return unauthorized
+
+  const deleted = await getSubscriptionStore().delete(params.id)
+  if (!deleted) {
+    return NextResponse.json({ error: 'Subscription not found' }, { status: 404 })
+  }
+  return NextResponse.json({ deleted: true })
+}
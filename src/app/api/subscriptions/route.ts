@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { toFieldIssues } from '@/lib/ebird-endpoints'
+import { createSubscription, subscriptionInputSchema } from '@/lib/server/alert-subscriptions'
+import { getServerApiKey } from '@/lib/server/ebird-client'
+import { getSmtpConfig } from '@/lib/server/email-delivery'
+import { authorizeSubscriptionRequest } from '@/lib/server/subscription-auth'
+import { getSubscriptionStore } from '@/lib/server/subscription-store'
+
+/**
+ * List alert subscriptions
+ */
+export async function GET(request: NextRequest) {
+  const unauthorized = authorizeSubscriptionRequest(request)
+  if (unauthorized) return unauthorized
+
+  const subscriptions = await getSubscriptionStore().list()
+  return NextResponse.json({ subscriptions })
+}
+
+/**
+ * Create an alert subscription
+ * The first scheduled run records the current sightings; only sightings after that are posted
+ */
+export async function POST(request: NextRequest) {
+  const unauthorized = authorizeSubscriptionRequest(request)
+  if (unauthorized) return unauthorized
+
+  // The scheduler queries eBird with the server key, never a user's session key
+  if (!getServerApiKey()) {
+    return NextResponse.json({ error: 'Alert subscriptions need EBIRD_API_KEY to be set on the server' }, { status: 503 })
+  }
+
+  const body = await request.json().catch(() => null)
+  const parsed = subscriptionInputSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid subscription', issues: toFieldIssues('body', parsed.error) },
+      { status: 400 }
+    )
+  }
+
+  if (parsed.data.emailRecipients.length > 0 && !getSmtpConfig()) {
+    return NextResponse.json({ error: 'Email delivery needs SMTP_HOST to be set on the server' }, { status: 503 })
+  }
+
+  const subscription = createSubscription(parsed.data)
+  await getSubscriptionStore().save(subscription)
+  return NextResponse.json({ subscription }, { status: 201 })
+}
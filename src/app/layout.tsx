@@ -1,5 +1,6 @@
-import type { Metadata } from 'next'
+import type { Metadata, Viewport } from 'next'
 import { Inter } from 'next/font/google'
+import { ServiceWorkerRegistration } from '@/components/service-worker-registration'
 import './globals.css'
 
 const inter = Inter({ subsets: ['latin'] })
@@ -14,6 +15,14 @@ export const metadata: Metadata = {
     description: 'Track rare bird sightings in your area with interactive maps',
     type: 'website',
   },
+  appleWebApp: {
+    capable: true,
+    title: 'Rare Alerts',
+  },
+}
+
+export const viewport: Viewport = {
+  themeColor: '#2563eb',
 }
 
 export default function RootLayout({
@@ -36,6 +45,7 @@ export default function RootLayout({
         <div className="min-h-screen bg-background">
           {children}
         </div>
+        <ServiceWorkerRegistration />
       </body>
     </html>
   )
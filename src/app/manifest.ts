@@ -0,0 +1,23 @@
+import type { MetadataRoute } from 'next'
+
+/**
+ * Web app manifest, so the map can be installed and opened offline
+ */
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: 'eBird Rare Alerts',
+    short_name: 'Rare Alerts',
+    description: 'Track rare bird sightings in your area with interactive maps',
+    start_url: '/',
+    display: 'standalone',
+    background_color: '#ffffff',
+    theme_color: '#2563eb',
+    icons: [
+      {
+        src: '/pin.svg',
+        sizes: 'any',
+        type: 'image/svg+xml',
+      },
+    ],
+  }
+}
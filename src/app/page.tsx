@@ -1,12 +1,51 @@
 'use client'
 
-import { useState } from 'react'
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import { Suspense } from 'react'
 import dynamic from 'next/dynamic'
+import { useQueryStates } from 'nuqs'
+import { AutoRefreshControl } from '@/components/auto-refresh-control'
+import { DatasetImport } from '@/components/dataset-import'
+import { ExportMenu } from '@/components/export-menu'
 import { FilterPanel } from '@/components/filter-panel'
 import { Header } from '@/components/header'
 import { LoadingSpinner } from '@/components/loading-spinner'
-import { FilterOptions, ApiKeyState } from '@/types/ebird'
+import { OfflineDatasetBanner } from '@/components/offline-dataset-banner'
+import { RefinePanel } from '@/components/refine-panel'
+import { ResultsHeader } from '@/components/results-header'
+import { SpeciesList } from '@/components/species-list'
+import { StaleResultsBanner } from '@/components/stale-results-banner'
+import { TimelineScrubber } from '@/components/timeline-scrubber'
+import { Toast, ToastAction, ToastClose, ToastDescription, ToastProvider, ToastTitle, ToastViewport } from '@/components/ui/toast'
+import { useSightings } from '@/hooks/use-sightings'
+import { useHotspots } from '@/hooks/use-hotspots'
+import type { MapFocusRequest } from '@/components/bird-map'
+import type { SpeciesSummary } from '@/lib/species-summary'
+import { DEFAULT_CLIENT_FILTERS, applyClientFilters } from '@/lib/client-filters'
+import { EBirdAuthError } from '@/lib/ebird-errors'
+import { formatLocationList, parseLocationList, validateLocationCode } from '@/lib/location-list'
+import { NewSightingsSummary, summarizeNewSightings } from '@/lib/new-sightings'
+import { toRareAlerts } from '@/lib/rare-alerts'
+import { findNearestHotspot } from '@/lib/region-directory'
+import { buildTimelineDays } from '@/lib/timeline'
+import {
+  MapViewport,
+  clientFiltersFromUrl,
+  clientFiltersToUrl,
+  filtersFromUrl,
+  filtersToUrl,
+  urlStateParsers,
+} from '@/lib/url-state'
+import {
+  FilterOptions,
+  ApiKeyState,
+  ClientFilters,
+  EBirdHotspot,
+  EBirdRareAlert,
+  EBirdSighting,
+  OfflineDataset,
+  UserLocation,
+} from '@/types/ebird'
 
 // Dynamically import BirdMap to avoid SSR issues
 const BirdMap = dynamic(() => import('@/components/bird-map').then(mod => ({ default: mod.BirdMap })), {
@@ -18,7 +57,9 @@ const BirdMap = dynamic(() => import('@/components/bird-map').then(mod => ({ def
  * Default filter configuration
  */
 const DEFAULT_FILTERS: FilterOptions = {
+  searchMode: 'region',
   regionCode: 'US',
+  dist: 25,
   back: 14,
   detail: 'full',
   hotspot: false,
@@ -26,102 +67,362 @@ const DEFAULT_FILTERS: FilterOptions = {
 }
 
 /**
- * Main application page component
+ * Main application page content
  * Manages API key validation, filter state, and data fetching coordination
  */
-export default function HomePage() {
+function HomePageContent() {
+  // URL state; the values at load time seed the page, later changes are mirrored back into the URL
+  const [urlState, setUrlState] = useQueryStates(urlStateParsers)
+  const [initialUrlState] = useState(urlState)
+  const [linkedFilters] = useState(() => filtersFromUrl(initialUrlState, DEFAULT_FILTERS))
+
   // API key state management
   const [apiKeyState, setApiKeyState] = useState<ApiKeyState>({
-    apiKey: '',
     isValid: false,
   })
   
   // Filter state management
-  const [currentFilters, setCurrentFilters] = useState<FilterOptions>(DEFAULT_FILTERS)
-  const [pendingFilters, setPendingFilters] = useState<FilterOptions>(DEFAULT_FILTERS)
+  const [currentFilters, setCurrentFilters] = useState<FilterOptions>(linkedFilters ?? DEFAULT_FILTERS)
+  const [pendingFilters, setPendingFilters] = useState<FilterOptions>(linkedFilters ?? DEFAULT_FILTERS)
+  const [clientFilters, setClientFilters] = useState<ClientFilters>(() => clientFiltersFromUrl(initialUrlState))
   
-  // Data fetching state
-  const [shouldFetchData, setShouldFetchData] = useState(false)
+  // Data fetching state; a shared link fetches as soon as a valid key is available
+  const [shouldFetchData, setShouldFetchData] = useState(linkedFilters !== null)
   const [mapLoaded, setMapLoaded] = useState(false)
 
-  /**
-   * Handle API key changes and validate the key
-   */
-  const handleApiKeyChange = async (apiKey: string) => {
-    console.log('API key changed:', apiKey ? `${apiKey.substring(0, 8)}...` : 'empty')
-    setApiKeyState({ apiKey, isValid: false, error: undefined })
-    setMapLoaded(false) // Reset map loaded state when API key changes
-    
-    if (apiKey.trim()) {
+  // Sighting shown in the details view, and one requested by a shared link until its results load
+  const [selectedSighting, setSelectedSighting] = useState<EBirdSighting | null>(null)
+  const linkedSubIdRef = useRef(initialUrlState.sub)
+
+  // Species list interaction with the map
+  const [highlightedSpeciesCode, setHighlightedSpeciesCode] = useState<string | null>(null)
+  const [focusRequest, setFocusRequest] = useState<MapFocusRequest | undefined>()
+
+  // Whether map clicks add hotspots to the additional locations
+  const [isPickingLocations, setIsPickingLocations] = useState(false)
+
+  // Background refresh of the applied search, and how new sightings are announced
+  const [refreshMinutes, setRefreshMinutes] = useState<number | null>(null)
+  const [notificationsEnabled, setNotificationsEnabled] = useState(false)
+  const [newSightingsToast, setNewSightingsToast] = useState<(NewSightingsSummary & { id: number }) | null>(null)
+
+  // Sightings imported from a file, shown instead of live results until closed or a new search is run
+  const [offlineDataset, setOfflineDataset] = useState<OfflineDataset | null>(null)
+
+  // Playback position (null shows every day) and whether species tracks are drawn
+  const [timelineDay, setTimelineDay] = useState<string | null>(null)
+  const [showSpeciesTracks, setShowSpeciesTracks] = useState(false)
+
+  // Pick up a session registered on a previous visit, or fall back to a server-configured key
+  useEffect(() => {
+    const loadSession = async () => {
       try {
-        console.log('Setting API key and validating...')
-        console.log('API key to validate:', apiKey)
-        
-        // Only use API on client side
-        if (typeof window !== 'undefined') {
-          // Import API client only on client side
-          const { ebirdApi } = await import('@/lib/ebird-api')
-          console.log('API client imported successfully')
-          
-          ebirdApi.setApiKey(apiKey)
-          console.log('API key set, now validating...')
-          
-          const isValid = await ebirdApi.validateApiKey()
-          console.log('API key validation result:', isValid)
-          setApiKeyState({ apiKey, isValid, error: isValid ? undefined : 'Invalid API key' })
-        } else {
-          console.log('Not in browser environment, skipping API validation')
+        const { ebirdApi } = await import('@/lib/ebird-api')
+        const session = await ebirdApi.getSession()
+        if (session) {
+          setApiKeyState({ session, isValid: true })
         }
       } catch (error) {
-        console.error('API key validation error:', error)
-        setApiKeyState({ 
-          apiKey, 
-          isValid: false, 
-          error: error instanceof Error ? error.message : 'Failed to validate API key' 
-        })
+        console.error('Failed to load API key session:', error)
+        if (error instanceof EBirdAuthError) {
+          setApiKeyState({ isValid: false, error: error.message })
+        }
       }
     }
+
+    loadSession()
+  }, [])
+
+  /**
+   * Handle API key changes by registering the key with the server
+   * Only the returned session reference is kept in the browser; remembering the key makes the server session last longer
+   */
+  const handleApiKeyChange = async (apiKey: string, remember: boolean) => {
+    setApiKeyState(prev => ({ ...prev, error: undefined }))
+    setMapLoaded(false) // Reset map loaded state when API key changes
+    
+    if (!apiKey.trim()) return
+
+    try {
+      const { ebirdApi } = await import('@/lib/ebird-api')
+      const session = await ebirdApi.registerApiKey(apiKey, remember)
+      setApiKeyState({ session, isValid: true })
+    } catch (error) {
+      console.error('API key validation error:', error)
+      setApiKeyState(prev => ({
+        ...prev,
+        error: error instanceof Error ? error.message : 'Failed to validate API key',
+      }))
+    }
+  }
+
+  /**
+   * Forget the registered API key, falling back to the server key if configured
+   */
+  const handleForgetApiKey = async () => {
+    try {
+      const { ebirdApi } = await import('@/lib/ebird-api')
+      const session = await ebirdApi.clearSession()
+      setApiKeyState({ session: session ?? undefined, isValid: Boolean(session) })
+    } catch (error) {
+      console.error('Failed to forget API key:', error)
+    }
   }
 
   /**
    * Handle filter changes (updates pending filters)
    */
   const handleFiltersChange = (newFilters: FilterOptions) => {
+    // The current results stay on the map until the new filters are applied
     setPendingFilters(newFilters)
-    setShouldFetchData(false) // Reset fetch flag when filters change
+    if (newFilters.searchMode === 'nearby') {
+      setIsPickingLocations(false)
+    }
   }
 
   /**
    * Apply pending filters and trigger data fetch
    */
   const handleApplyFilters = () => {
-    setCurrentFilters(pendingFilters)
+    // A fresh object so applying unchanged filters fetches again
+    setCurrentFilters({ ...pendingFilters })
+    setIsPickingLocations(false)
+    setOfflineDataset(null)
     setShouldFetchData(true)
     setMapLoaded(false) // Reset map loaded state when filters are applied
   }
 
   /**
-   * Reset filters to default values
+   * Reset filters to default values, including the refinements and their URL parameters
    */
   const handleResetFilters = () => {
     setPendingFilters(DEFAULT_FILTERS)
     setCurrentFilters(DEFAULT_FILTERS)
+    setClientFilters(DEFAULT_CLIENT_FILTERS)
+    setOfflineDataset(null)
     setShouldFetchData(true)
     setMapLoaded(false) // Reset map loaded state when filters are reset
   }
 
+  /**
+   * Use a clicked map point as the search center and search around it
+   */
+  const handleMapClick = (lat: number, lng: number) => {
+    if (isPickingLocations) {
+      findNearestHotspot(lat, lng)
+        .then(hotspot => hotspot && handleAddLocation(hotspot.locId))
+        .catch(error => console.error('Failed to find a hotspot near the map click:', error))
+      return
+    }
+
+    const newFilters: FilterOptions = {
+      ...pendingFilters,
+      searchMode: 'nearby',
+      lat: Number(lat.toFixed(5)),
+      lng: Number(lng.toFixed(5)),
+    }
+    setPendingFilters(newFilters)
+    setCurrentFilters(newFilters)
+    setOfflineDataset(null)
+    setShouldFetchData(true)
+    setMapLoaded(false)
+  }
+
+  /**
+   * Search a county or state clicked on the regions layer
+   */
+  const handleSelectRegion = useCallback((regionCode: string) => {
+    if (currentFilters.searchMode === 'region' && currentFilters.regionCode === regionCode) return
+
+    const newFilters: FilterOptions = {
+      ...pendingFilters,
+      searchMode: 'region',
+      regionCode,
+    }
+    setPendingFilters(newFilters)
+    setCurrentFilters(newFilters)
+    setOfflineDataset(null)
+    setShouldFetchData(true)
+    setMapLoaded(false)
+  }, [currentFilters, pendingFilters])
+
+  /**
+   * Add a hotspot to the additional locations, ignoring duplicates and anything past the limit
+   */
+  const handleAddLocation = useCallback((locId: string) => {
+    setPendingFilters(prev => {
+      const codes = parseLocationList(prev.r)
+      if (validateLocationCode(locId, codes)) return prev
+      return { ...prev, r: formatLocationList([...codes, locId]) }
+    })
+  }, [])
+
+  // Search center shown on the map in nearby mode
+  const userLocation = useMemo<UserLocation | undefined>(() => {
+    if (currentFilters.searchMode !== 'nearby' || currentFilters.lat === undefined || currentFilters.lng === undefined) {
+      return undefined
+    }
+    return { latitude: currentFilters.lat, longitude: currentFilters.lng }
+  }, [currentFilters])
+
   /**
    * Handle map loaded event
    */
-  const handleMapLoaded = () => {
+  const handleMapLoaded = useCallback(() => {
     setMapLoaded(true)
+  }, [])
+
+  /**
+   * Surface API key rejections from the map in the key error banner
+   */
+  const handleAuthError = useCallback((message: string) => {
+    setApiKeyState(prev => ({ ...prev, error: message }))
+  }, [])
+
+  /**
+   * Focus the map on the most recent location a species was reported at
+   */
+  const handleSelectSpecies = useCallback((species: SpeciesSummary) => {
+    setFocusRequest({ locId: species.latest.locId, requestedAt: Date.now() })
+  }, [])
+
+  /**
+   * Announce sightings found by a background refresh with a toast and, if enabled, a browser notification
+   */
+  const handleNewSightings = useCallback((alerts: EBirdRareAlert[]) => {
+    const summary = summarizeNewSightings(alerts)
+    setNewSightingsToast({ ...summary, id: Date.now() })
+
+    if (notificationsEnabled && typeof Notification !== 'undefined' && Notification.permission === 'granted') {
+      const notification = new Notification(summary.title, { body: summary.description, tag: 'ebird-new-sightings' })
+      notification.onclick = () => {
+        window.focus()
+        setFocusRequest({ locId: summary.rarest.locId, requestedAt: Date.now() })
+      }
+    }
+  }, [notificationsEnabled])
+
+  /**
+   * Show an imported dataset in place of live results
+   * Refinements are cleared since the species and counties of the file differ
+   */
+  const handleImportDataset = (dataset: OfflineDataset) => {
+    setOfflineDataset(dataset)
+    setClientFilters(DEFAULT_CLIENT_FILTERS)
+    setIsPickingLocations(false)
+    handleSelectSighting(null)
+  }
+
+  /**
+   * Leave the imported dataset and return to live results
+   */
+  const handleCloseDataset = () => {
+    setOfflineDataset(null)
+    setClientFilters(DEFAULT_CLIENT_FILTERS)
+    handleSelectSighting(null)
   }
 
+  /**
+   * Turn auto-refresh on or off; notifications only make sense while it is on
+   */
+  const handleRefreshMinutesChange = (minutes: number | null) => {
+    setRefreshMinutes(minutes)
+    if (minutes === null) setNotificationsEnabled(false)
+  }
+
+  const session = apiKeyState.isValid ? apiKeyState.session : undefined
+
+  // Hotspots being edited in the additional locations, outlined on the map
+  const watchedCodes = useMemo(
+    () => pendingFilters.searchMode === 'region' ? parseLocationList(pendingFilters.r) : [],
+    [pendingFilters.searchMode, pendingFilters.r]
+  )
+  const watchedHotspotMap = useHotspots(watchedCodes, Boolean(session))
+  const watchedHotspots = useMemo(
+    () => Array.from(watchedHotspotMap.values()).filter((hotspot): hotspot is EBirdHotspot => Boolean(hotspot)),
+    [watchedHotspotMap]
+  )
+  const live = useSightings({
+    filters: currentFilters,
+    session,
+    userLocation,
+    shouldFetchData: shouldFetchData && !offlineDataset,
+    refreshIntervalMs: refreshMinutes !== null ? refreshMinutes * 60 * 1000 : null,
+    onLoaded: handleMapLoaded,
+    onAuthError: handleAuthError,
+    onNewSightings: handleNewSightings,
+  })
+  const { retry, newObsIds, lastUpdated, offlineAsOf, acknowledgeNew } = live
+
+  // An imported dataset goes through the same rarity, refinement and map pipeline as live results
+  const offlineSightings = useMemo(
+    () => offlineDataset ? toRareAlerts(offlineDataset.sightings) : [],
+    [offlineDataset]
+  )
+  const sightings = offlineDataset ? offlineSightings : live.sightings
+  const loading = offlineDataset ? false : live.loading
+  const error = offlineDataset ? null : live.error
+  const visibleSightings = useMemo(
+    () => applyClientFilters(sightings, clientFilters),
+    [sightings, clientFilters]
+  )
+  // The results header stays up with no sightings so auto-refresh can wait for the first one
+  const hasFetched = offlineDataset !== null || (shouldFetchData && !loading && !error && lastUpdated !== null)
+  const hasResults = hasFetched && sightings.length > 0
+  const timelineDays = useMemo(() => buildTimelineDays(visibleSightings), [visibleSightings])
+
+  // A new search or dataset starts with every day shown; background refreshes keep the playback position
+  useEffect(() => {
+    setTimelineDay(null)
+  }, [currentFilters, offlineDataset])
+
+  // Mirror the applied search in the URL so it can be shared
+  useEffect(() => {
+    if (shouldFetchData) {
+      setUrlState(filtersToUrl(currentFilters))
+    }
+  }, [currentFilters, shouldFetchData, setUrlState])
+
+  useEffect(() => {
+    setUrlState(clientFiltersToUrl(clientFilters))
+  }, [clientFilters, setUrlState])
+
+  // Reopen the sighting from a shared link once results are loaded
+  useEffect(() => {
+    const subId = linkedSubIdRef.current
+    if (!subId || sightings.length === 0) return
+
+    linkedSubIdRef.current = null
+    const match = sightings.find(sighting => sighting.subId === subId)
+    if (match) {
+      setSelectedSighting(match)
+    } else {
+      setUrlState({ sub: null })
+    }
+  }, [sightings, setUrlState])
+
+  /**
+   * Show or close the details view, keeping its checklist in the URL
+   */
+  const handleSelectSighting = useCallback((sighting: EBirdSighting | null) => {
+    setSelectedSighting(sighting)
+    setUrlState({ sub: sighting?.subId ?? null })
+  }, [setUrlState])
+
+  /**
+   * Keep the map position in the URL, throttled while panning
+   */
+  const handleViewportChange = useCallback((viewport: MapViewport) => {
+    setUrlState({ map: viewport }, { throttleMs: 500 })
+  }, [setUrlState])
+
   return (
     <div className="min-h-screen bg-background">
       <Header 
         onApiKeyChange={handleApiKeyChange}
-        currentApiKey={apiKeyState.apiKey}
+        onForgetApiKey={handleForgetApiKey}
+        session={apiKeyState.session}
+        isKeyRemembered={Boolean(apiKeyState.session?.remembered)}
       />
       
       <main className="flex h-[calc(100vh-4rem)]">
@@ -132,20 +433,109 @@ export default function HomePage() {
             onFiltersChange={handleFiltersChange}
             onApplyFilters={handleApplyFilters}
             onResetFilters={handleResetFilters}
+            regionLookupEnabled={Boolean(session)}
+            isPickingLocations={isPickingLocations}
+            onPickingLocationsChange={setIsPickingLocations}
           />
+
+          {/* Refinements over the loaded sightings */}
+          {hasResults && (
+            <div className="mt-6 pt-6 border-t border-border">
+              <RefinePanel
+                sightings={sightings}
+                filters={clientFilters}
+                matchCount={visibleSightings.length}
+                onFiltersChange={setClientFilters}
+              />
+            </div>
+          )}
+
+          <div className="mt-6 pt-6 border-t border-border">
+            <DatasetImport onImport={handleImportDataset} />
+          </div>
         </aside>
         
         {/* Map Container */}
-        <div className="flex-1 relative">
-          <Suspense fallback={<LoadingSpinner />}>
-            <BirdMap 
+        <div className="flex-1 flex flex-col min-w-0">
+          {offlineDataset && (
+            <OfflineDatasetBanner
+              dataset={offlineDataset}
+              visibleCount={visibleSightings.length}
+              onClose={handleCloseDataset}
+            />
+          )}
+          {hasFetched && !offlineDataset && offlineAsOf && (
+            <StaleResultsBanner asOf={offlineAsOf} />
+          )}
+          {hasFetched && !offlineDataset && (
+            <ResultsHeader
               filters={currentFilters}
-              apiKey={apiKeyState.isValid ? apiKeyState.apiKey : undefined}
-              shouldFetchData={shouldFetchData}
-              onMapLoaded={handleMapLoaded}
+              totalCount={sightings.length}
+              visibleCount={visibleSightings.length}
+            >
+              <AutoRefreshControl
+                intervalMinutes={refreshMinutes}
+                onIntervalChange={handleRefreshMinutesChange}
+                notificationsEnabled={notificationsEnabled}
+                onNotificationsChange={setNotificationsEnabled}
+                lastUpdated={lastUpdated}
+                newCount={newObsIds.size}
+                onAcknowledgeNew={acknowledgeNew}
+              />
+              <ExportMenu sightings={visibleSightings} filters={currentFilters} />
+            </ResultsHeader>
+          )}
+          <div className="flex-1 relative">
+            <Suspense fallback={<LoadingSpinner />}>
+              <BirdMap 
+                sightings={visibleSightings}
+                boundsSightings={sightings}
+                loading={loading}
+                error={error}
+                onRetry={retry}
+                userLocation={userLocation}
+                searchRadiusKm={currentFilters.searchMode === 'nearby' ? currentFilters.dist : undefined}
+                onMapClick={pendingFilters.searchMode === 'nearby' || isPickingLocations ? handleMapClick : undefined}
+                session={session}
+                shouldFetchData={shouldFetchData}
+                isOfflineDataset={offlineDataset !== null}
+                highlightedSpeciesCode={highlightedSpeciesCode}
+                newObsIds={offlineDataset ? undefined : newObsIds}
+                timelineDay={timelineDay}
+                showSpeciesTracks={showSpeciesTracks}
+                focusRequest={focusRequest}
+                watchedLocations={watchedHotspots}
+                isPickingLocations={isPickingLocations}
+                onAddLocation={pendingFilters.searchMode === 'region' ? handleAddLocation : undefined}
+                initialViewport={initialUrlState.map}
+                selectedSighting={selectedSighting}
+                onSelectSighting={handleSelectSighting}
+                onViewportChange={handleViewportChange}
+                onSelectRegion={handleSelectRegion}
+              />
+            </Suspense>
+          </div>
+          {hasResults && timelineDays.length > 1 && (
+            <TimelineScrubber
+              days={timelineDays}
+              day={timelineDay}
+              onDayChange={setTimelineDay}
+              showTracks={showSpeciesTracks}
+              onShowTracksChange={setShowSpeciesTracks}
             />
-          </Suspense>
+          )}
         </div>
+
+        {/* Species List */}
+        {hasResults && (
+          <aside className="w-96 border-l border-border bg-card">
+            <SpeciesList
+              sightings={visibleSightings}
+              onHoverSpecies={setHighlightedSpeciesCode}
+              onSelectSpecies={handleSelectSpecies}
+            />
+          </aside>
+        )}
       </main>
 
       {/* API Key Error Display */}
@@ -158,6 +548,41 @@ export default function HomePage() {
           </p>
         </div>
       )}
+
+      {/* New sightings found by auto-refresh */}
+      <ToastProvider>
+        {newSightingsToast && (
+          <Toast
+            key={newSightingsToast.id}
+            onOpenChange={(open) => !open && setNewSightingsToast(null)}
+          >
+            <div className="grid gap-1">
+              <ToastTitle>{newSightingsToast.title}</ToastTitle>
+              <ToastDescription>{newSightingsToast.description}</ToastDescription>
+            </div>
+            <ToastAction
+              altText="Show the rarest new sighting on the map"
+              onClick={() => setFocusRequest({ locId: newSightingsToast.rarest.locId, requestedAt: Date.now() })}
+            >
+              Show
+            </ToastAction>
+            <ToastClose />
+          </Toast>
+        )}
+        <ToastViewport />
+      </ToastProvider>
     </div>
   )
-} 
\ No newline at end of file
+}
+
+/**
+ * Main application page component
+ * URL state is read with useSearchParams, which needs a Suspense boundary
+ */
+export default function HomePage() {
+  return (
+    <Suspense fallback={<LoadingSpinner />}>
+      <HomePageContent />
+    </Suspense>
+  )
+}
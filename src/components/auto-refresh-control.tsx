@@ -0,0 +1,118 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { format } from 'date-fns'
+import { Bell, BellOff, RefreshCw } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { REFRESH_INTERVAL_OPTIONS } from '@/lib/new-sightings'
+
+/**
+ * Props for the AutoRefreshControl component
+ */
+interface AutoRefreshControlProps {
+  intervalMinutes: number | null
+  onIntervalChange: (minutes: number | null) => void
+  notificationsEnabled: boolean
+  onNotificationsChange: (enabled: boolean) => void
+  lastUpdated: Date | null
+  newCount: number
+  onAcknowledgeNew: () => void
+}
+
+// Radix Select items cannot have an empty value
+const OFF = 'off'
+
+/**
+ * Auto-refresh interval, browser notification opt-in and a count of unseen new sightings
+ */
+export function AutoRefreshControl({
+  intervalMinutes,
+  onIntervalChange,
+  notificationsEnabled,
+  onNotificationsChange,
+  lastUpdated,
+  newCount,
+  onAcknowledgeNew,
+}: AutoRefreshControlProps) {
+  const [permission, setPermission] = useState<NotificationPermission | 'unsupported'>('default')
+
+  useEffect(() => {
+    setPermission(typeof Notification === 'undefined' ? 'unsupported' : Notification.permission)
+  }, [])
+
+  /**
+   * Turn browser notifications on or off, asking for permission the first time
+   */
+  const handleToggleNotifications = async () => {
+    if (notificationsEnabled) {
+      onNotificationsChange(false)
+      return
+    }
+    const result = Notification.permission === 'default'
+      ? await Notification.requestPermission()
+      : Notification.permission
+    setPermission(result)
+    onNotificationsChange(result === 'granted')
+  }
+
+  const notificationsTitle = permission === 'unsupported'
+    ? 'This browser does not support notifications'
+    : permission === 'denied'
+      ? 'Notifications are blocked for this site in the browser settings'
+      : notificationsEnabled
+        ? 'Stop browser notifications for new sightings'
+        : 'Show a browser notification for new sightings'
+
+  return (
+    <div className="flex items-center space-x-2">
+      {newCount > 0 && (
+        <button
+          type="button"
+          className="rounded-full bg-red-600 px-2 py-0.5 text-xs font-semibold text-white hover:bg-red-700"
+          onClick={onAcknowledgeNew}
+          title="Mark new sightings as seen"
+        >
+          {newCount} new
+        </button>
+      )}
+
+      {lastUpdated && (
+        <span className="text-xs text-muted-foreground whitespace-nowrap">
+          Updated {format(lastUpdated, 'HH:mm')}
+        </span>
+      )}
+
+      <Select
+        value={intervalMinutes === null ? OFF : String(intervalMinutes)}
+        onValueChange={(value) => onIntervalChange(value === OFF ? null : Number(value))}
+      >
+        <SelectTrigger className="h-8 w-36 text-xs" aria-label="Auto-refresh interval">
+          <RefreshCw className={`h-3 w-3 mr-1 ${intervalMinutes !== null ? 'text-primary' : ''}`} />
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={OFF}>Auto-refresh off</SelectItem>
+          {REFRESH_INTERVAL_OPTIONS.map((minutes) => (
+            <SelectItem key={minutes} value={String(minutes)}>
+              Every {minutes} min
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Button
+        type="button"
+        variant={notificationsEnabled ? 'default' : 'outline'}
+        size="sm"
+        className="h-8 px-2"
+        disabled={intervalMinutes === null || permission === 'unsupported' || permission === 'denied'}
+        onClick={handleToggleNotifications}
+        title={notificationsTitle}
+        aria-label={notificationsTitle}
+      >
+        {notificationsEnabled ? <Bell className="h-4 w-4" /> : <BellOff className="h-4 w-4" />}
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,40 @@
+'use client'
+
+import { Map as MapIcon } from 'lucide-react'
+import type { TileProvider } from '@/lib/tile-providers'
+
+/**
+ * Props for the BaseLayerSwitcher component
+ */
+interface BaseLayerSwitcherProps {
+  providers: TileProvider[]
+  selectedId: string
+  onSelect: (id: string) => void
+}
+
+/**
+ * Map control choosing the base map under the sightings
+ */
+export function BaseLayerSwitcher({ providers, selectedId, onSelect }: BaseLayerSwitcherProps) {
+  return (
+    <div className="flex items-center rounded-lg border bg-background/95 p-1 shadow-md text-xs">
+      <MapIcon className="h-3 w-3 mx-1.5 text-muted-foreground" aria-hidden />
+      <div className="flex" role="radiogroup" aria-label="Base map">
+        {providers.map((provider) => (
+          <button
+            key={provider.id}
+            type="button"
+            role="radio"
+            aria-checked={selectedId === provider.id}
+            className={`rounded-md px-2 py-1 ${
+              selectedId === provider.id ? 'bg-primary text-primary-foreground' : 'hover:bg-muted'
+            }`}
+            onClick={() => onSelect(provider.id)}
+          >
+            {provider.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -1,13 +1,38 @@
 'use client'
 
-import { useEffect, useState, useRef } from 'react'
+import { memo, useCallback, useEffect, useMemo, useState, useRef } from 'react'
 import dynamic from 'next/dynamic'
-import { MapContainer, TileLayer, Marker, Popup, useMap } from 'react-leaflet'
-import { Icon } from 'leaflet'
-import { Bird, MapPin, Calendar, User, X, Code } from 'lucide-react'
+import { Marker, Popup, Tooltip, useMap, useMapEvents } from 'react-leaflet'
+import MarkerClusterGroup from 'react-leaflet-cluster'
+import type { Marker as LeafletMarker, MarkerClusterGroup as LeafletMarkerClusterGroup } from 'leaflet'
+import { Bird, MapPin, Calendar, User, X, Code, KeyRound, Clock, CloudOff, Timer, Navigation, Plus } from 'lucide-react'
 import { formatDate, getInitialMapCenter } from '@/lib/utils'
+import { getStoredBaseLayer, setStoredBaseLayer } from '@/lib/app-storage'
+import { getTileProvider, getTileProviders } from '@/lib/tile-providers'
+import { formatDistance } from '@/lib/geo'
+import { RARITY_TIER_INFO } from '@/lib/rare-alerts'
+import { createClusterIcon, getRarityIcon } from '@/lib/map-icons'
+import { LocationGroup, LocationSpeciesSummary, groupSightingsByLocation } from '@/lib/location-groups'
+import { buildSpeciesTracks, getMarkerOpacity, getSightingsUpTo } from '@/lib/timeline'
+import {
+  HEATMAP_WEIGHTS,
+  HeatmapWeight,
+  MapLayerMode,
+  buildHeatPoints,
+  countReportsByRegion,
+  getRegionCountBreaks,
+  getRegionLevel,
+} from '@/lib/map-layers'
+import type { MapViewport } from '@/lib/url-state'
+import { RarityLegend } from '@/components/rarity-legend'
+import { BaseLayerSwitcher } from '@/components/base-layer-switcher'
+import { RegionCirclesLayer } from '@/components/region-circles-layer'
+import { DensityLegend } from '@/components/density-legend'
+import { HeatmapLayer } from '@/components/heatmap-layer'
+import { MapLayerSwitcher } from '@/components/map-layer-switcher'
+import { EBirdAuthError, EBirdRateLimitError, EBirdTimeoutError, EBirdUpstreamError } from '@/lib/ebird-errors'
 import { Button } from '@/components/ui/button'
-import { EBirdSighting, FilterOptions, UserLocation } from '@/types/ebird'
+import { ApiKeySession, EBirdHotspot, EBirdRareAlert, EBirdSighting, UserLocation } from '@/types/ebird'
 
 // Dynamically import Leaflet components to avoid SSR issues
 const MapContainerDynamic = dynamic(() => import('react-leaflet').then(mod => ({ default: mod.MapContainer })), {
@@ -18,36 +43,55 @@ const TileLayerDynamic = dynamic(() => import('react-leaflet').then(mod => ({ de
   ssr: false,
 })
 
-const MarkerDynamic = dynamic(() => import('react-leaflet').then(mod => ({ default: mod.Marker })), {
+const CircleDynamic = dynamic(() => import('react-leaflet').then(mod => ({ default: mod.Circle })), {
   ssr: false,
 })
 
-const PopupDynamic = dynamic(() => import('react-leaflet').then(mod => ({ default: mod.Popup })), {
+const CircleMarkerDynamic = dynamic(() => import('react-leaflet').then(mod => ({ default: mod.CircleMarker })), {
   ssr: false,
 })
 
-/**
- * Create a custom map pin icon using the provided SVG
- * @returns Leaflet Icon instance
- */
-const createCustomIcon = () => {
-  return new Icon({
-    iconUrl: '/pin.svg',
-    iconSize: [32, 32],
-    iconAnchor: [16, 32],
-    popupAnchor: [0, -32],
-  })
-}
+const PolylineDynamic = dynamic(() => import('react-leaflet').then(mod => ({ default: mod.Polyline })), {
+  ssr: false,
+})
 
 /**
  * Props for the BirdMap component
  */
 interface BirdMapProps {
-  filters?: FilterOptions
+  sightings: EBirdRareAlert[]
+  boundsSightings?: EBirdSighting[]
+  loading?: boolean
+  error?: Error | null
+  onRetry?: () => void
   userLocation?: UserLocation
-  apiKey?: string
+  session?: ApiKeySession
+  searchRadiusKm?: number
   shouldFetchData?: boolean
-  onMapLoaded?: () => void
+  isOfflineDataset?: boolean
+  highlightedSpeciesCode?: string | null
+  newObsIds?: Set<string>
+  timelineDay?: string | null
+  showSpeciesTracks?: boolean
+  focusRequest?: MapFocusRequest
+  watchedLocations?: EBirdHotspot[]
+  isPickingLocations?: boolean
+  onAddLocation?: (locId: string) => void
+  initialViewport?: MapViewport | null
+  selectedSighting?: EBirdSighting | null
+  onSelectSighting?: (sighting: EBirdSighting | null) => void
+  onViewportChange?: (viewport: MapViewport) => void
+  onMapClick?: (lat: number, lng: number) => void
+  onSelectRegion?: (regionCode: string) => void
+}
+
+/**
+ * Request to zoom to a location and open its popup
+ * requestedAt makes repeated requests for the same location distinct
+ */
+export interface MapFocusRequest {
+  locId: string
+  requestedAt: number
 }
 
 /**
@@ -67,6 +111,199 @@ function MapUpdater({ center, bounds }: { center?: [number, number], bounds?: [[
   return null
 }
 
+/**
+ * Component to forward map clicks to the parent
+ */
+function MapClickHandler({ onMapClick }: { onMapClick: (lat: number, lng: number) => void }) {
+  useMapEvents({
+    click: (event) => onMapClick(event.latlng.lat, event.latlng.lng),
+  })
+  return null
+}
+
+/**
+ * Component to report the map position after every pan or zoom
+ */
+function ViewportReporter({ onViewportChange }: { onViewportChange: (viewport: MapViewport) => void }) {
+  const map = useMapEvents({
+    moveend: () => {
+      const center = map.getCenter()
+      onViewportChange({ lat: center.lat, lng: center.lng, zoom: map.getZoom() })
+    },
+  })
+  return null
+}
+
+/**
+ * Marker and popup for all sightings at one location
+ * Memoized so unrelated map state changes do not re-render thousands of markers
+ */
+const LocationMarker = memo(function LocationMarker({
+  group,
+  newObsIds,
+  opacity = 1,
+  onViewDetails,
+  onMarkerRef,
+  onAddLocation,
+}: {
+  group: LocationGroup
+  newObsIds?: Set<string>
+  opacity?: number
+  onViewDetails: (sighting: EBirdRareAlert) => void
+  onMarkerRef: (locId: string, marker: LeafletMarker | null) => void
+  onAddLocation?: (locId: string) => void
+}) {
+  const isNewSpecies = (species: LocationSpeciesSummary) =>
+    Boolean(newObsIds?.size) && species.sightings.some(sighting => newObsIds!.has(sighting.obsId))
+  const isNew = group.species.some(isNewSpecies)
+
+  return (
+    <Marker
+      ref={(marker) => onMarkerRef(group.locId, marker)}
+      position={[group.lat, group.lng]}
+      icon={getRarityIcon(group.rarity, isNew)}
+      opacity={opacity}
+    >
+      <Popup>
+        <div className="p-2 min-w-[240px] max-w-[320px]">
+          <div className="flex items-start space-x-2">
+            <MapPin className="h-5 w-5 text-primary mt-0.5" />
+            <div className="flex-1">
+              <h3 className="font-semibold text-sm">{group.locName}</h3>
+              <p className="text-xs text-muted-foreground -mt-1">
+                {group.species.length} species · {group.reportCount} {group.reportCount === 1 ? 'report' : 'reports'}
+              </p>
+            </div>
+          </div>
+
+          <div className="mt-2 space-y-1 text-xs">
+            <div className="flex items-center space-x-2">
+              <Calendar className="h-3 w-3" />
+              <span>Latest {formatDate(group.latestObsDt)}</span>
+            </div>
+
+            {group.distance !== undefined && (
+              <div className="flex items-center space-x-2">
+                <Navigation className="h-3 w-3" />
+                <span>{formatDistance(group.distance)} away</span>
+              </div>
+            )}
+          </div>
+
+          {onAddLocation && group.locId.startsWith('L') && (
+            <button
+              type="button"
+              className="mt-2 flex items-center text-xs text-primary hover:underline"
+              onClick={() => onAddLocation(group.locId)}
+            >
+              <Plus className="h-3 w-3 mr-1" />
+              Add to additional locations
+            </button>
+          )}
+
+          {/* Species at this location */}
+          <ul className="mt-2 pt-2 border-t space-y-2 max-h-64 overflow-y-auto">
+            {group.species.map((species) => (
+              <li key={species.speciesCode} className="text-xs">
+                <div className="flex items-start space-x-2">
+                  <span
+                    className="mt-1 inline-block h-2.5 w-2.5 shrink-0 rounded-full"
+                    style={{ backgroundColor: RARITY_TIER_INFO[species.rarity].color }}
+                    title={RARITY_TIER_INFO[species.rarity].label}
+                  />
+                  <div className="flex-1">
+                    <div className="flex items-center justify-between space-x-2">
+                      <span className="font-semibold text-sm">
+                        {species.comName}
+                        {isNewSpecies(species) && (
+                          <span className="ml-1 rounded-full bg-red-600 px-1.5 text-[10px] font-bold uppercase text-white">
+                            New
+                          </span>
+                        )}
+                      </span>
+                      <button
+                        type="button"
+                        className="text-primary hover:underline"
+                        onClick={() => onViewDetails(species.latest)}
+                      >
+                        Details
+                      </button>
+                    </div>
+                    <p className="text-muted-foreground italic">{species.sciName}</p>
+                    <p>
+                      {species.reportCount} {species.reportCount === 1 ? 'report' : 'reports'}
+                      {species.maxHowMany !== undefined && ` · max ${species.maxHowMany}`}
+                      {' · '}
+                      {formatDate(species.latestObsDt)}
+                      {species.latest.timeSince && (
+                        <span className="text-muted-foreground"> ({species.latest.timeSince})</span>
+                      )}
+                    </p>
+                    <div className="flex items-center space-x-1 text-muted-foreground">
+                      <User className="h-3 w-3" />
+                      <span>{species.observers.join(', ')}</span>
+                    </div>
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </Popup>
+    </Marker>
+  )
+})
+
+/**
+ * Error state with recovery actions specific to the kind of failure
+ * Rate limits count down before allowing a retry; auth errors point at the API key
+ */
+function FetchErrorView({ error, onRetry }: { error: Error, onRetry: () => void }) {
+  const retryAfter = error instanceof EBirdRateLimitError ? error.retryAfterSeconds ?? 30 : 0
+  const [secondsLeft, setSecondsLeft] = useState(retryAfter)
+
+  useEffect(() => {
+    if (secondsLeft <= 0) return
+    const timer = setTimeout(() => setSecondsLeft(secondsLeft - 1), 1000)
+    return () => clearTimeout(timer)
+  }, [secondsLeft])
+
+  let icon = <CloudOff className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+  let title = 'Something went wrong'
+  let hint = 'Please try again.'
+
+  if (error instanceof EBirdAuthError) {
+    icon = <KeyRound className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+    title = 'API key rejected'
+    hint = 'Update your eBird API key in the header, then try again.'
+  } else if (error instanceof EBirdRateLimitError) {
+    icon = <Timer className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+    title = 'Rate limit reached'
+    hint = 'eBird limits how often data can be requested. Results may already be cached once the wait is over.'
+  } else if (error instanceof EBirdTimeoutError) {
+    icon = <Clock className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+    title = 'eBird took too long to respond'
+    hint = 'Try fewer days back, a smaller region or a lower max results.'
+  } else if (error instanceof EBirdUpstreamError) {
+    title = error.status ? `eBird is having trouble (${error.status})` : 'Could not reach eBird'
+    hint = error.status ? 'This is usually temporary.' : 'Check your internet connection.'
+  }
+
+  return (
+    <div className="flex items-center justify-center h-full">
+      <div className="text-center max-w-md">
+        {icon}
+        <p className="font-medium mb-1">{title}</p>
+        <p className="text-sm text-muted-foreground mb-2">{hint}</p>
+        <p className="text-xs text-destructive mb-4">{error.message}</p>
+        <Button onClick={onRetry} disabled={secondsLeft > 0}>
+          {secondsLeft > 0 ? `Retry in ${secondsLeft}s` : 'Try Again'}
+        </Button>
+      </div>
+    </div>
+  )
+}
+
 /**
  * Detailed view component for displaying comprehensive sighting information
  */
@@ -142,17 +379,52 @@ function DetailedSightingView({ sighting, onClose }: { sighting: EBirdSighting,
 
 /**
  * Main map component for displaying bird sightings
- * Handles data fetching, map rendering, and user interactions
+ * Handles map rendering and user interactions; sightings are fetched by the page
  */
-export function BirdMap({ filters, userLocation, apiKey, shouldFetchData = false, onMapLoaded }: BirdMapProps) {
+export function BirdMap({
+  sightings,
+  boundsSightings = sightings,
+  loading = false,
+  error = null,
+  onRetry,
+  userLocation,
+  session,
+  searchRadiusKm,
+  shouldFetchData = false,
+  isOfflineDataset = false,
+  highlightedSpeciesCode,
+  newObsIds,
+  timelineDay = null,
+  showSpeciesTracks = false,
+  focusRequest,
+  watchedLocations = [],
+  isPickingLocations = false,
+  onAddLocation,
+  initialViewport,
+  selectedSighting = null,
+  onSelectSighting,
+  onViewportChange,
+  onMapClick,
+  onSelectRegion,
+}: BirdMapProps) {
   // State management
-  const [sightings, setSightings] = useState<EBirdSighting[]>([])
-  const [loading, setLoading] = useState(false)
-  const [error, setError] = useState<string | null>(null)
-  const [mapCenter, setMapCenter] = useState<[number, number]>(getInitialMapCenter())
+  const [mapCenter, setMapCenter] = useState<[number, number]>(
+    initialViewport ? [initialViewport.lat, initialViewport.lng] : getInitialMapCenter()
+  )
   const [mapBounds, setMapBounds] = useState<[[number, number], [number, number]] | undefined>()
-  const [selectedSighting, setSelectedSighting] = useState<EBirdSighting | null>(null)
+  const [layerMode, setLayerMode] = useState<MapLayerMode>('clusters')
+  const [heatmapWeight, setHeatmapWeight] = useState<HeatmapWeight>('reports')
+  const tileProviders = useMemo(() => getTileProviders(), [])
+  // The map only renders in the browser, so the stored choice can be read on the first render
+  const [tileProvider, setTileProvider] = useState(() => getTileProvider(getStoredBaseLayer()))
+  // A viewport restored from a link wins over fitting the first result set
+  const keepInitialViewportRef = useRef(Boolean(initialViewport))
   const mapRef = useRef<any>(null)
+  const clusterRef = useRef<LeafletMarkerClusterGroup | null>(null)
+  const markerRefs = useRef(new Map<string, LeafletMarker>())
+  // Read when focusing a location, so a refresh of the sightings does not move the map again
+  const sightingsRef = useRef(sightings)
+  sightingsRef.current = sightings
 
   /**
    * Calculate map bounds to fit all sightings with padding
@@ -190,58 +462,128 @@ export function BirdMap({ filters, userLocation, apiKey, shouldFetchData = false
     return [avgLat, avgLng] as [number, number]
   }
 
-  // Update map center when user location changes
-  useEffect(() => {
-    if (userLocation) {
-      setMapCenter([userLocation.latitude, userLocation.longitude])
-      setMapBounds(undefined)
+  /**
+   * Keep track of rendered markers so a location can be focused from outside the map
+   */
+  const handleMarkerRef = useCallback((locId: string, marker: LeafletMarker | null) => {
+    if (marker) {
+      markerRefs.current.set(locId, marker)
+    } else {
+      markerRefs.current.delete(locId)
     }
-  }, [userLocation])
+  }, [])
+
+  /**
+   * Switch the base map and remember the choice on this device
+   */
+  const handleSelectBaseLayer = (id: string) => {
+    const provider = getTileProvider(id)
+    setTileProvider(provider)
+    setStoredBaseLayer(provider.id)
+  }
+
+  /**
+   * Open the details view for a sighting
+   */
+  const handleViewDetails = useCallback((sighting: EBirdRareAlert) => {
+    onSelectSighting?.(sighting)
+  }, [onSelectSighting])
+
+  // During playback only sightings up to the timeline day are shown
+  const shownSightings = useMemo(
+    () => timelineDay ? getSightingsUpTo(sightings, timelineDay) : sightings,
+    [sightings, timelineDay]
+  )
+
+  // Build one marker per location once per result set; icons are shared per rarity tier and new flag
+  const markers = useMemo(
+    () => groupSightingsByLocation(shownSightings).map((group) => (
+      <LocationMarker
+        key={group.locId}
+        group={group}
+        newObsIds={newObsIds}
+        opacity={timelineDay ? getMarkerOpacity(group.latestObsDt, timelineDay) : 1}
+        onViewDetails={handleViewDetails}
+        onMarkerRef={handleMarkerRef}
+        onAddLocation={onAddLocation}
+      />
+    )),
+    [shownSightings, timelineDay, newObsIds, handleViewDetails, handleMarkerRef, onAddLocation]
+  )
+
+  // Density layers are only computed while shown
+  const heatmap = useMemo(
+    () => layerMode === 'heatmap' ? buildHeatPoints(shownSightings, heatmapWeight) : null,
+    [layerMode, shownSightings, heatmapWeight]
+  )
 
-  // Fetch sightings data when filters, API key, or fetch flag changes
+  const regionCircles = useMemo(() => {
+    if (layerMode !== 'regions') return null
+    const level = getRegionLevel(shownSightings)
+    const regions = countReportsByRegion(shownSightings, level)
+    return { level, regions, breaks: getRegionCountBreaks(regions[0]?.count ?? 1) }
+  }, [layerMode, shownSightings])
+
+  const speciesTracks = useMemo(
+    () => showSpeciesTracks ? buildSpeciesTracks(shownSightings) : [],
+    [shownSightings, showSpeciesTracks]
+  )
+
+  // Locations of the species hovered in the species list
+  const highlightedLocations = useMemo(() => {
+    if (!highlightedSpeciesCode) return []
+    const locations = new Map<string, EBirdRareAlert>()
+    shownSightings.forEach(sighting => {
+      if (sighting.speciesCode === highlightedSpeciesCode && !locations.has(sighting.locId)) {
+        locations.set(sighting.locId, sighting)
+      }
+    })
+    return Array.from(locations.values())
+  }, [shownSightings, highlightedSpeciesCode])
+
+  // Fit the map to each new result set; refining what is shown keeps the current view
   useEffect(() => {
-    const fetchSightings = async () => {
-      if (!filters || !apiKey || !shouldFetchData) return
-      
-      setLoading(true)
-      setError(null)
-      
-      try {
-        // Import API client only on client side
-        const { ebirdApi } = await import('@/lib/ebird-api')
-        
-        // Set the API key for this request
-        // Only use API on client side
-        if (typeof window !== 'undefined') {
-          ebirdApi.setApiKey(apiKey)
-          
-          // Fetch notable observations using the new API structure
-          const data = await ebirdApi.getNotableObservations(filters.regionCode, filters)
-          setSightings(data)
-          
-          // Calculate new center and bounds based on the data
-          if (data.length > 0) {
-            const newCenter = calculateMapCenter(data)
-            const newBounds = calculateMapBounds(data)
-            setMapCenter(newCenter)
-            setMapBounds(newBounds)
-          }
-          
-          // Notify parent that map has loaded
-          onMapLoaded?.()
-        }
-      } catch (err) {
-        setError(err instanceof Error ? err.message : 'Failed to fetch sightings')
-        console.error('Error fetching sightings:', err)
-      } finally {
-        setLoading(false)
+    if (boundsSightings.length > 0) {
+      if (keepInitialViewportRef.current) {
+        keepInitialViewportRef.current = false
+        return
       }
+      setMapCenter(calculateMapCenter(boundsSightings))
+      setMapBounds(calculateMapBounds(boundsSightings))
     }
+  }, [boundsSightings])
 
-    fetchSightings()
-  }, [filters, apiKey, shouldFetchData, onMapLoaded])
+  // Cluster bubbles are only redrawn on demand, so refresh them when the new flags change
+  useEffect(() => {
+    clusterRef.current?.refreshClusters()
+  }, [newObsIds])
 
-  if (!apiKey) {
+  // Zoom to a requested location, expanding its cluster, and open its popup
+  // Density layers have no markers, so the map only zooms to the location
+  useEffect(() => {
+    if (!focusRequest) return
+    const marker = markerRefs.current.get(focusRequest.locId)
+    if (marker && clusterRef.current) {
+      clusterRef.current.zoomToShowLayer(marker, () => marker.openPopup())
+    } else if (marker) {
+      mapRef.current?.setView(marker.getLatLng(), Math.max(mapRef.current.getZoom(), 13))
+      marker.openPopup()
+    } else {
+      const sighting = sightingsRef.current.find(s => s.locId === focusRequest.locId)
+      if (sighting) mapRef.current?.setView([sighting.lat, sighting.lng], Math.max(mapRef.current.getZoom(), 13))
+    }
+  }, [focusRequest])
+
+  // Update map center when user location changes
+  useEffect(() => {
+    if (userLocation && !keepInitialViewportRef.current) {
+      setMapCenter([userLocation.latitude, userLocation.longitude])
+      setMapBounds(undefined)
+    }
+  }, [userLocation])
+
+  // An imported dataset needs neither an API key nor applied filters
+  if (!session && !isOfflineDataset) {
     return (
       <div className="flex items-center justify-center h-full">
         <div className="text-center">
@@ -256,7 +598,7 @@ export function BirdMap({ filters, userLocation, apiKey, shouldFetchData = false
   }
 
   // Don't render map until filters are applied
-  if (!shouldFetchData) {
+  if (!shouldFetchData && !isOfflineDataset) {
     return (
       <div className="flex items-center justify-center h-full">
         <div className="text-center">
@@ -282,16 +624,7 @@ export function BirdMap({ filters, userLocation, apiKey, shouldFetchData = false
   }
 
   if (error) {
-    return (
-      <div className="flex items-center justify-center h-full">
-        <div className="text-center">
-          <p className="text-destructive mb-4">{error}</p>
-          <Button onClick={() => window.location.reload()}>
-            Try Again
-          </Button>
-        </div>
-      </div>
-    )
+    return <FetchErrorView error={error} onRetry={() => onRetry?.()} />
   }
 
   return (
@@ -300,90 +633,147 @@ export function BirdMap({ filters, userLocation, apiKey, shouldFetchData = false
       <MapContainerDynamic
         ref={mapRef}
         center={mapCenter}
-        zoom={10}
-        className="h-full w-full"
+        zoom={initialViewport?.zoom ?? 10}
+        className={`h-full w-full${isPickingLocations ? ' picking-locations' : ''}`}
         style={{ height: '100%', width: '100%' }}
       >
+        {/* Keyed by provider, since Leaflet does not apply a changed crossOrigin, tile size or attribution */}
         <TileLayerDynamic
-          attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
-          url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+          key={tileProvider.id}
+          attribution={tileProvider.attribution}
+          url={tileProvider.url}
+          maxZoom={tileProvider.maxZoom}
+          // Leaflet takes an undefined option over its default, so tile size is only passed when set
+          {...(tileProvider.tileSize && { tileSize: tileProvider.tileSize, zoomOffset: tileProvider.zoomOffset })}
+          // CORS responses, unlike opaque ones, can be checked and kept by the service worker for offline use
+          crossOrigin={tileProvider.crossOrigin ? '' : undefined}
         />
         
         <MapUpdater center={mapCenter} bounds={mapBounds} />
 
-        {/* Bird Sightings Markers */}
-        {sightings.map((sighting) => (
-          <MarkerDynamic
-            key={sighting.subId}
-            position={[sighting.lat, sighting.lng]}
-            icon={createCustomIcon()}
+        {onMapClick && <MapClickHandler onMapClick={onMapClick} />}
+
+        {onViewportChange && <ViewportReporter onViewportChange={onViewportChange} />}
+
+        {/* Search radius and user location */}
+        {userLocation && (
+          <>
+            {searchRadiusKm !== undefined && (
+              <CircleDynamic
+                center={[userLocation.latitude, userLocation.longitude]}
+                radius={searchRadiusKm * 1000}
+                pathOptions={{ color: '#2563eb', weight: 1, fillOpacity: 0.05 }}
+              />
+            )}
+            <CircleMarkerDynamic
+              center={[userLocation.latitude, userLocation.longitude]}
+              radius={7}
+              pathOptions={{ color: '#ffffff', weight: 2, fillColor: '#2563eb', fillOpacity: 1 }}
+            />
+          </>
+        )}
+
+        {/* Routes of species reported at successive locations, under the markers */}
+        {speciesTracks.map((track) => (
+          <PolylineDynamic
+            key={track.speciesCode}
+            positions={track.positions}
+            pathOptions={{ color: RARITY_TIER_INFO[track.rarity].color, weight: 3, opacity: 0.8, dashArray: '6 4' }}
           >
-            <PopupDynamic>
-              <div className="p-2 min-w-[200px]">
-                <div className="flex items-start space-x-2">
-                  <Bird className="h-5 w-5 text-primary mt-0.5" />
-                  <div className="flex-1">
-                    <h3 className="font-semibold text-sm">{sighting.comName}</h3>
-                    <p className="text-xs text-muted-foreground italic -mt-1">{sighting.sciName}</p>
-                  </div>
-                </div>
-                
-                <div className="mt-2 space-y-1 text-xs">
-                  <div className="flex items-center space-x-2">
-                    <Calendar className="h-3 w-3" />
-                    <span>{formatDate(sighting.obsDt)}</span>
-                  </div>
-                  
-                  <div className="flex items-center space-x-2">
-                    <MapPin className="h-3 w-3" />
-                    <span>{sighting.locName}</span>
-                  </div>
-                  
-                  {sighting.howMany && (
-                    <div className="flex items-center space-x-2">
-                      <span className="font-medium">Count: {sighting.howMany}</span>
-                    </div>
-                  )}
-                  
-                  <div className="flex items-center space-x-2">
-                    <User className="h-3 w-3" />
-                    <span>{sighting.userDisplayName}</span>
-                  </div>
+            <Tooltip sticky>{track.comName}</Tooltip>
+          </PolylineDynamic>
+        ))}
 
-                  <div className="flex items-center space-x-2">
-                    <span className={`px-2 py-1 rounded text-xs ${sighting.obsValid ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'}`}>
-                      {sighting.obsValid ? 'Valid' : 'Unvalidated'}
-                    </span>
-                    {sighting.obsReviewed && (
-                      <span className="px-2 py-1 rounded text-xs bg-blue-100 text-blue-800">
-                        Reviewed
-                      </span>
-                    )}
-                  </div>
-                </div>
-                
-                <div className="mt-2 pt-2 border-t">
-                  <Button 
-                    size="sm" 
-                    className="w-full"
-                    onClick={() => setSelectedSighting(sighting)}
-                  >
-                    View Details
-                  </Button>
-                </div>
-              </div>
-            </PopupDynamic>
-          </MarkerDynamic>
+        {/* Bird Sightings Markers, clustered with count bubbles that split on zoom */}
+        {layerMode === 'clusters' && (
+          <MarkerClusterGroup
+            ref={clusterRef}
+            chunkedLoading
+            removeOutsideVisibleBounds
+            spiderfyOnMaxZoom
+            showCoverageOnHover={false}
+            maxClusterRadius={60}
+            iconCreateFunction={createClusterIcon}
+          >
+            {markers}
+          </MarkerClusterGroup>
+        )}
+
+        {layerMode === 'pins' && markers}
+
+        {heatmap && <HeatmapLayer points={heatmap.points} max={heatmap.max} />}
+
+        {regionCircles && (
+          <RegionCirclesLayer regions={regionCircles.regions} breaks={regionCircles.breaks} onSelectRegion={onSelectRegion} />
+        )}
+
+        {/* Hotspots chosen as additional locations */}
+        {watchedLocations.map((hotspot) => (
+          <CircleMarkerDynamic
+            key={hotspot.locId}
+            center={[hotspot.lat, hotspot.lng]}
+            radius={12}
+            pathOptions={{ color: '#7c3aed', weight: 2, dashArray: '4 3', fillOpacity: 0 }}
+          >
+            <Tooltip>{hotspot.locName}</Tooltip>
+          </CircleMarkerDynamic>
+        ))}
+
+        {/* Rings around the locations of the hovered species */}
+        {highlightedLocations.map((sighting) => (
+          <CircleMarkerDynamic
+            key={sighting.locId}
+            center={[sighting.lat, sighting.lng]}
+            radius={18}
+            pathOptions={{
+              color: RARITY_TIER_INFO[sighting.rarity].color,
+              weight: 3,
+              fillOpacity: 0.15,
+              interactive: false,
+            }}
+          />
         ))}
       </MapContainerDynamic>
 
+      {/* Layer switchers */}
+      <div className="absolute top-3 right-3 z-[1000] flex flex-col items-end space-y-2">
+        <MapLayerSwitcher
+          mode={layerMode}
+          onModeChange={setLayerMode}
+          heatmapWeight={heatmapWeight}
+          onHeatmapWeightChange={setHeatmapWeight}
+        />
+        {tileProviders.length > 1 && (
+          <BaseLayerSwitcher
+            providers={tileProviders}
+            selectedId={tileProvider.id}
+            onSelect={handleSelectBaseLayer}
+          />
+        )}
+      </div>
+
+      {/* Legend for the current layer */}
+      <div className="absolute bottom-6 left-4 z-[1000]">
+        {heatmap ? (
+          <DensityLegend
+            mode="heatmap"
+            max={heatmap.max}
+            weightLabel={HEATMAP_WEIGHTS.find(option => option.weight === heatmapWeight)!.label.toLowerCase()}
+          />
+        ) : regionCircles ? (
+          <DensityLegend mode="regions" breaks={regionCircles.breaks} level={regionCircles.level} />
+        ) : (
+          <RarityLegend />
+        )}
+      </div>
+
       {/* Detailed Sighting Modal */}
       {selectedSighting && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-[9999] p-4">
           <div className="bg-background rounded-lg shadow-xl w-full max-w-4xl h-[90vh] overflow-hidden">
             <DetailedSightingView 
               sighting={selectedSighting} 
-              onClose={() => setSelectedSighting(null)} 
+              onClose={() => onSelectSighting?.(null)} 
             />
           </div>
         </div>
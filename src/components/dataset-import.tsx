@@ -0,0 +1,75 @@
+'use client'
+
+import { useRef, useState } from 'react'
+import { AlertCircle, HardDrive, Upload } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { MAX_IMPORT_BYTES, parseDataset } from '@/lib/sighting-import'
+import { OfflineDataset } from '@/types/ebird'
+
+/**
+ * Props for the DatasetImport component
+ */
+interface DatasetImportProps {
+  onImport: (dataset: OfflineDataset) => void
+}
+
+/**
+ * Load sightings from a file for viewing without a connection
+ * Accepts notable observations JSON, and the CSV and GeoJSON files the export menu writes
+ */
+export function DatasetImport({ onImport }: DatasetImportProps) {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  /**
+   * Read and validate the chosen file
+   */
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    // Clear the input so choosing the same file again still fires a change
+    e.target.value = ''
+    if (!file) return
+
+    if (file.size > MAX_IMPORT_BYTES) {
+      setError(`The file is larger than ${MAX_IMPORT_BYTES / 1024 / 1024} MB`)
+      return
+    }
+
+    try {
+      const dataset = parseDataset(file.name, await file.text(), file.lastModified)
+      setError(null)
+      onImport(dataset)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read the file')
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <h2 className="text-lg font-semibold flex items-center">
+        <HardDrive className="h-4 w-4 mr-2" />
+        Offline Data
+      </h2>
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".json,.geojson,.csv,application/json,application/geo+json,text/csv"
+        className="hidden"
+        onChange={handleFileChange}
+      />
+      <Button type="button" variant="outline" size="sm" className="w-full" onClick={() => inputRef.current?.click()}>
+        <Upload className="h-4 w-4 mr-2" />
+        Import sightings file
+      </Button>
+      {error && (
+        <p className="flex items-center text-xs text-destructive">
+          <AlertCircle className="h-3 w-3 mr-1 shrink-0" />
+          {error}
+        </p>
+      )}
+      <p className="text-xs text-muted-foreground">
+        eBird notable observations JSON, or a CSV or GeoJSON export
+      </p>
+    </div>
+  )
+}
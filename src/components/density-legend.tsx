@@ -0,0 +1,48 @@
+import { RegionLevel, getRegionCountColor } from '@/lib/map-layers'
+
+/**
+ * Props for the DensityLegend component
+ */
+type DensityLegendProps =
+  | { mode: 'heatmap', max: number, weightLabel: string }
+  | { mode: 'regions', breaks: number[], level: RegionLevel }
+
+// Colors of the leaflet.heat default gradient, low to high
+const HEATMAP_GRADIENT = 'linear-gradient(to right, blue, cyan, lime, yellow, red)'
+
+/**
+ * Map legend for the heatmap ramp or the report counts of the region circles
+ */
+export function DensityLegend(props: DensityLegendProps) {
+  if (props.mode === 'heatmap') {
+    return (
+      <div className="rounded-lg border bg-background/95 p-3 shadow-md text-xs space-y-1.5 w-44">
+        <p className="font-medium">Density ({props.weightLabel})</p>
+        <div className="h-2.5 rounded-full" style={{ background: HEATMAP_GRADIENT }} />
+        <div className="flex justify-between text-muted-foreground">
+          <span>Low</span>
+          <span>{props.max}</span>
+        </div>
+      </div>
+    )
+  }
+
+  const { breaks, level } = props
+  return (
+    <div className="rounded-lg border bg-background/95 p-3 shadow-md text-xs space-y-1.5">
+      <p className="font-medium">Reports by {level === 'subnational2' ? 'county' : 'state'} (circles)</p>
+      {breaks.map((limit, index) => {
+        const from = index === 0 ? 1 : breaks[index - 1] + 1
+        return (
+          <div key={limit} className="flex items-center space-x-2">
+            <span
+              className="inline-block h-3 w-3 rounded-sm border border-white shadow"
+              style={{ backgroundColor: getRegionCountColor(limit, breaks) }}
+            />
+            <span>{from === limit ? limit : `${from}–${limit}`}</span>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
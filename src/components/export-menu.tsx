@@ -0,0 +1,91 @@
+'use client'
+
+import { Download } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import {
+  EXPORT_FORMATS,
+  ExportFormat,
+  buildExportFilename,
+  getObservationDateRange,
+  serializeSightings,
+} from '@/lib/sighting-export'
+import { EBirdSighting, FilterOptions } from '@/types/ebird'
+
+/**
+ * Props for the ExportMenu component
+ */
+interface ExportMenuProps {
+  sightings: EBirdSighting[]
+  filters: FilterOptions
+}
+
+const REVOKE_DELAY_MS = 1000
+
+/**
+ * Save text as a file through a temporary link
+ */
+function downloadFile(filename: string, content: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  // Revoking straight after the click can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS)
+}
+
+/**
+ * Menu that downloads the sightings currently shown as CSV, GeoJSON, KML or GPX
+ */
+export function ExportMenu({ sightings, filters }: ExportMenuProps) {
+  const isNearby = filters.searchMode === 'nearby' && filters.lat !== undefined && filters.lng !== undefined
+  const areaLabel = isNearby ? `${filters.lat!.toFixed(3)},${filters.lng!.toFixed(3)}` : filters.regionCode.toUpperCase()
+
+  /**
+   * Export the sightings in one format
+   */
+  const handleExport = (format: ExportFormat) => {
+    const range = getObservationDateRange(sightings)
+    const name = range
+      ? `eBird notable sightings, ${areaLabel}, ${range.from} to ${range.to}`
+      : `eBird notable sightings, ${areaLabel}`
+    downloadFile(
+      buildExportFilename(areaLabel, sightings, format),
+      serializeSightings(format, sightings, name),
+      EXPORT_FORMATS[format].mimeType
+    )
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" className="h-8 px-2" disabled={sightings.length === 0}>
+          <Download className="h-4 w-4 mr-1" />
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="z-[1100] w-64">
+        <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">
+          {sightings.length} {sightings.length === 1 ? 'sighting' : 'sightings'} as shown
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((format) => (
+          <DropdownMenuItem key={format} onSelect={() => handleExport(format)}>
+            <div>
+              <div className="font-medium">{EXPORT_FORMATS[format].label}</div>
+              <div className="text-xs text-muted-foreground">{EXPORT_FORMATS[format].description}</div>
+            </div>
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
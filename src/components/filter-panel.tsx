@@ -1,11 +1,14 @@
 'use client'
 
 import { useState, useEffect } from 'react'
-import { Search, MapPin, Calendar, Filter, Globe } from 'lucide-react'
+import { Search, MapPin, Calendar, Filter, Globe, LocateFixed } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { LocationListEditor } from '@/components/location-list-editor'
+import { RegionPicker, RegionValidation } from '@/components/region-picker'
+import { SavedSearches } from '@/components/saved-searches'
 import { FilterOptions } from '@/types/ebird'
 
 /**
@@ -16,15 +19,32 @@ interface FilterPanelProps {
   onFiltersChange: (filters: FilterOptions) => void
   onApplyFilters: () => void
   onResetFilters: () => void
+  regionLookupEnabled?: boolean
+  isPickingLocations?: boolean
+  onPickingLocationsChange?: (isPicking: boolean) => void
 }
 
 /**
  * Filter panel component for configuring eBird API query parameters
  * Provides a user-friendly interface for setting region, time range, and other filters
  */
-export function FilterPanel({ filters, onFiltersChange, onApplyFilters, onResetFilters }: FilterPanelProps) {
+export function FilterPanel({
+  filters,
+  onFiltersChange,
+  onApplyFilters,
+  onResetFilters,
+  regionLookupEnabled = true,
+  isPickingLocations = false,
+  onPickingLocationsChange,
+}: FilterPanelProps) {
   // Local state for managing filter changes before applying
   const [localFilters, setLocalFilters] = useState<FilterOptions>(filters)
+  const [isLocating, setIsLocating] = useState(false)
+  const [locationError, setLocationError] = useState<string | null>(null)
+  const [regionValidation, setRegionValidation] = useState<RegionValidation>({ status: 'idle' })
+  const isNearby = localFilters.searchMode === 'nearby'
+  const hasLocation = localFilters.lat !== undefined && localFilters.lng !== undefined
+  const canApply = isNearby ? hasLocation : regionValidation.status !== 'invalid'
 
   // Update local filters when props change
   useEffect(() => {
@@ -40,30 +60,160 @@ export function FilterPanel({ filters, onFiltersChange, onApplyFilters, onResetF
     onFiltersChange(newFilters)
   }
 
+  /**
+   * Fill the search point from the browser's geolocation
+   */
+  const handleUseMyLocation = () => {
+    if (!navigator.geolocation) {
+      setLocationError('Geolocation is not supported by this browser')
+      return
+    }
+
+    setIsLocating(true)
+    setLocationError(null)
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        const newFilters = {
+          ...localFilters,
+          lat: Number(position.coords.latitude.toFixed(5)),
+          lng: Number(position.coords.longitude.toFixed(5)),
+        }
+        setLocalFilters(newFilters)
+        onFiltersChange(newFilters)
+        setIsLocating(false)
+      },
+      (error) => {
+        setLocationError(error.message || 'Unable to get your location')
+        setIsLocating(false)
+      },
+      { enableHighAccuracy: false, timeout: 10000, maximumAge: 5 * 60 * 1000 }
+    )
+  }
+
+  /**
+   * Load a saved search into the form; it runs once applied
+   */
+  const handleLoadSearch = (savedFilters: FilterOptions) => {
+    setLocalFilters(savedFilters)
+    onFiltersChange(savedFilters)
+  }
+
+  /**
+   * Parse a coordinate input, keeping it unset when empty or invalid
+   */
+  const parseCoordinate = (value: string) => {
+    const parsed = parseFloat(value)
+    return Number.isFinite(parsed) ? parsed : undefined
+  }
+
   return (
     <div className="space-y-6">
       <div>
         <h2 className="text-lg font-semibold mb-4">Filters</h2>
       </div>
 
-      {/* Region Code */}
+      {/* Search Mode */}
       <div className="space-y-2">
-        <Label htmlFor="regionCode">Region Code</Label>
-        <div className="relative">
-          <Globe className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-          <Input
-            id="regionCode"
-            placeholder="e.g., US, US-NY, US-CA"
-            value={localFilters.regionCode}
-            onChange={(e) => handleFilterChange('regionCode', e.target.value)}
-            className="pl-10"
-          />
+        <Label>Search</Label>
+        <div className="grid grid-cols-2 gap-2">
+          <Button
+            type="button"
+            size="sm"
+            variant={isNearby ? 'outline' : 'default'}
+            onClick={() => handleFilterChange('searchMode', 'region')}
+          >
+            <Globe className="h-4 w-4 mr-2" />
+            Region
+          </Button>
+          <Button
+            type="button"
+            size="sm"
+            variant={isNearby ? 'default' : 'outline'}
+            onClick={() => handleFilterChange('searchMode', 'nearby')}
+          >
+            <MapPin className="h-4 w-4 mr-2" />
+            Near me
+          </Button>
         </div>
-        <p className="text-xs text-muted-foreground">
-          Country (US), State (US-NY), or County (US-NY-001) code
-        </p>
       </div>
 
+      {isNearby ? (
+        <>
+          {/* Search Point */}
+          <div className="space-y-2">
+            <Button
+              type="button"
+              variant="outline"
+              className="w-full"
+              onClick={handleUseMyLocation}
+              disabled={isLocating}
+            >
+              <LocateFixed className="h-4 w-4 mr-2" />
+              {isLocating ? 'Locating...' : 'Use my location'}
+            </Button>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="lat" className="text-xs">Latitude</Label>
+                <Input
+                  id="lat"
+                  type="number"
+                  step="any"
+                  min="-90"
+                  max="90"
+                  value={localFilters.lat ?? ''}
+                  onChange={(e) => handleFilterChange('lat', parseCoordinate(e.target.value))}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="lng" className="text-xs">Longitude</Label>
+                <Input
+                  id="lng"
+                  type="number"
+                  step="any"
+                  min="-180"
+                  max="180"
+                  value={localFilters.lng ?? ''}
+                  onChange={(e) => handleFilterChange('lng', parseCoordinate(e.target.value))}
+                />
+              </div>
+            </div>
+            {locationError && (
+              <p className="text-xs text-destructive">{locationError}</p>
+            )}
+            <p className="text-xs text-muted-foreground">
+              Use your location, type coordinates, or click the map after a search
+            </p>
+          </div>
+
+          {/* Radius */}
+          <div className="space-y-2">
+            <Label>Radius</Label>
+            <Select
+              value={String(localFilters.dist ?? 25)}
+              onValueChange={(value) => handleFilterChange('dist', parseInt(value))}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="5">5 km</SelectItem>
+                <SelectItem value="10">10 km</SelectItem>
+                <SelectItem value="25">25 km</SelectItem>
+                <SelectItem value="50">50 km</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </>
+      ) : (
+        /* Region */
+        <RegionPicker
+          value={localFilters.regionCode}
+          onChange={(regionCode) => handleFilterChange('regionCode', regionCode)}
+          onValidationChange={setRegionValidation}
+          lookupEnabled={regionLookupEnabled}
+        />
+      )}
+
       {/* Days Back Filter */}
       <div className="space-y-2">
         <Label>Days Back (1-30)</Label>
@@ -131,18 +281,16 @@ export function FilterPanel({ filters, onFiltersChange, onApplyFilters, onResetF
       </div>
 
       {/* Additional Locations */}
-      <div className="space-y-2">
-        <Label htmlFor="additionalLocations">Additional Locations</Label>
-        <Input
-          id="additionalLocations"
-          placeholder="Comma-separated location codes"
-          value={localFilters.r || ''}
-          onChange={(e) => handleFilterChange('r', e.target.value)}
+      {!isNearby && (
+        <LocationListEditor
+          value={localFilters.r}
+          onChange={(r) => handleFilterChange('r', r)}
+          regionCode={localFilters.regionCode}
+          lookupEnabled={regionLookupEnabled}
+          isPicking={isPickingLocations}
+          onPickingChange={onPickingLocationsChange}
         />
-        <p className="text-xs text-muted-foreground">
-          Up to 10 additional location codes, comma-separated
-        </p>
-      </div>
+      )}
 
       {/* Species Locale */}
       <div className="space-y-2">
@@ -166,7 +314,7 @@ export function FilterPanel({ filters, onFiltersChange, onApplyFilters, onResetF
 
       {/* Action Buttons */}
       <div className="space-y-2">
-        <Button className="w-full" onClick={onApplyFilters}>
+        <Button className="w-full" onClick={onApplyFilters} disabled={!canApply}>
           <Filter className="h-4 w-4 mr-2" />
           Apply Filters
         </Button>
@@ -179,15 +327,8 @@ export function FilterPanel({ filters, onFiltersChange, onApplyFilters, onResetF
         </Button>
       </div>
 
-      {/* Help Text */}
-      <div className="text-xs text-muted-foreground space-y-1">
-        <p><strong>Region Codes:</strong></p>
-        <p>• US - United States</p>
-        <p>• US-NY - New York State</p>
-        <p>• US-CA - California</p>
-        <p>• US-NY-001 - Albany County, NY</p>
-        <p>• L123456 - Specific location ID</p>
-      </div>
+      {/* Saved Searches */}
+      <SavedSearches filters={localFilters} onLoadSearch={handleLoadSearch} />
     </div>
   )
 } 
\ No newline at end of file
@@ -5,23 +5,28 @@ import { Bird, MapPin, Key } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
+import { ApiKeySession } from '@/types/ebird'
 
 /**
  * Props for the Header component
  */
 interface HeaderProps {
-  onApiKeyChange?: (apiKey: string) => void
-  currentApiKey?: string
+  onApiKeyChange?: (apiKey: string, remember: boolean) => void
+  onForgetApiKey?: () => void
+  session?: ApiKeySession
+  isKeyRemembered?: boolean
 }
 
 /**
  * Application header component with API key management
  * Provides a clean interface for setting and updating the eBird API key
  */
-export function Header({ onApiKeyChange, currentApiKey }: HeaderProps) {
-  // Local state for managing API key input
-  const [apiKey, setApiKey] = useState(currentApiKey || '')
+export function Header({ onApiKeyChange, onForgetApiKey, session, isKeyRemembered = false }: HeaderProps) {
+  // Local state for managing API key input; the key is handed off and cleared on submit
+  const [apiKey, setApiKey] = useState('')
+  const [rememberKey, setRememberKey] = useState(isKeyRemembered)
   const [isExpanded, setIsExpanded] = useState(false)
+  const hasUserKey = session?.source === 'session'
 
   /**
    * Handle API key form submission
@@ -29,7 +34,8 @@ export function Header({ onApiKeyChange, currentApiKey }: HeaderProps) {
   const handleApiKeySubmit = (e: React.FormEvent) => {
     e.preventDefault()
     if (apiKey.trim()) {
-      onApiKeyChange?.(apiKey.trim())
+      onApiKeyChange?.(apiKey.trim(), rememberKey)
+      setApiKey('')
       setIsExpanded(false)
     }
   }
@@ -59,15 +65,31 @@ export function Header({ onApiKeyChange, currentApiKey }: HeaderProps) {
         
         <div className="flex items-center space-x-2">
           {!isExpanded ? (
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={() => setIsExpanded(true)}
-              className="flex items-center space-x-2"
-            >
-              <Key className="h-4 w-4" />
-              <span>{currentApiKey ? 'Change API Key' : 'Add API Key'}</span>
-            </Button>
+            <>
+              {session && (
+                <span className="hidden sm:inline text-xs text-muted-foreground">
+                  {hasUserKey ? `Using your key ${session.keyHint ?? ''}` : 'Using server API key'}
+                  {hasUserKey && isKeyRemembered && ' · remembered on this device'}
+                </span>
+              )}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  setRememberKey(isKeyRemembered)
+                  setIsExpanded(true)
+                }}
+                className="flex items-center space-x-2"
+              >
+                <Key className="h-4 w-4" />
+                <span>{hasUserKey ? 'Change API Key' : 'Add API Key'}</span>
+              </Button>
+              {(hasUserKey || isKeyRemembered) && (
+                <Button variant="ghost" size="sm" onClick={onForgetApiKey}>
+                  Forget
+                </Button>
+              )}
+            </>
           ) : (
             <form onSubmit={handleApiKeySubmit} className="flex items-center space-x-2">
               <div className="flex flex-col space-y-1">
@@ -85,6 +107,18 @@ export function Header({ onApiKeyChange, currentApiKey }: HeaderProps) {
                   autoFocus
                 />
               </div>
+              <div className="flex items-center space-x-1 self-end pb-1.5">
+                <input
+                  type="checkbox"
+                  id="rememberKey"
+                  checked={rememberKey}
+                  onChange={(e) => setRememberKey(e.target.checked)}
+                  className="rounded border-gray-300"
+                />
+                <Label htmlFor="rememberKey" className="text-xs whitespace-nowrap">
+                  Remember on this device
+                </Label>
+              </div>
               <Button type="submit" size="sm" disabled={!apiKey.trim()}>
                 Save
               </Button>
@@ -94,7 +128,7 @@ export function Header({ onApiKeyChange, currentApiKey }: HeaderProps) {
                 size="sm"
                 onClick={() => {
                   setIsExpanded(false)
-                  setApiKey(currentApiKey || '')
+                  setApiKey('')
                 }}
               >
                 Cancel
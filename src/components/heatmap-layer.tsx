@@ -0,0 +1,32 @@
+'use client'
+
+import { useEffect } from 'react'
+import { heatLayer } from 'leaflet'
+// Adds heatLayer to the global Leaflet object, so it must load after leaflet
+import 'leaflet.heat'
+import type { HeatLatLngTuple } from 'leaflet'
+import { useMap } from 'react-leaflet'
+
+/**
+ * Props for the HeatmapLayer component
+ */
+interface HeatmapLayerProps {
+  points: HeatLatLngTuple[]
+  max: number
+}
+
+/**
+ * Kernel-density heatmap of weighted points, drawn on a canvas above the tiles
+ */
+export function HeatmapLayer({ points, max }: HeatmapLayerProps) {
+  const map = useMap()
+
+  useEffect(() => {
+    const layer = heatLayer(points, { max, radius: 25, blur: 20, minOpacity: 0.3 }).addTo(map)
+    return () => {
+      layer.remove()
+    }
+  }, [map, points, max])
+
+  return null
+}
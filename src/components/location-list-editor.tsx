@@ -0,0 +1,218 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { AlertCircle, MousePointerClick, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { useHotspots } from '@/hooks/use-hotspots'
+import { MAX_LOCATIONS, formatLocationList, parseLocationList, validateLocationCode } from '@/lib/location-list'
+import { listRegionHotspots } from '@/lib/region-directory'
+import { EBirdHotspot } from '@/types/ebird'
+
+/**
+ * Props for the LocationListEditor component
+ */
+interface LocationListEditorProps {
+  value?: string
+  onChange: (value: string | undefined) => void
+  regionCode: string
+  lookupEnabled?: boolean
+  isPicking?: boolean
+  onPickingChange?: (isPicking: boolean) => void
+}
+
+const MAX_SUGGESTIONS = 8
+// Wait for the region code to settle so partial codes typed on the way are never looked up
+const HOTSPOT_LOOKUP_DELAY_MS = 400
+
+/**
+ * Chip editor for the `r` parameter
+ * Locations can be typed as L-codes, found by hotspot name within the region, or picked on the map
+ */
+export function LocationListEditor({
+  value,
+  onChange,
+  regionCode,
+  lookupEnabled = true,
+  isPicking = false,
+  onPickingChange,
+}: LocationListEditorProps) {
+  const [query, setQuery] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [regionHotspots, setRegionHotspots] = useState<EBirdHotspot[]>([])
+  const [showSuggestions, setShowSuggestions] = useState(false)
+  const codes = useMemo(() => parseLocationList(value), [value])
+  const hotspots = useHotspots(codes, lookupEnabled)
+  const isFull = codes.length >= MAX_LOCATIONS
+
+  // Hotspots of the selected state or county, for name search
+  useEffect(() => {
+    setRegionHotspots([])
+    if (!lookupEnabled) return
+    let cancelled = false
+    const timer = setTimeout(() => {
+      listRegionHotspots(regionCode)
+        .then(list => !cancelled && setRegionHotspots(list))
+        .catch(error => console.error('Failed to load hotspots:', error))
+    }, HOTSPOT_LOOKUP_DELAY_MS)
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [regionCode, lookupEnabled])
+
+  const suggestions = useMemo(() => {
+    const needle = query.trim().toLowerCase()
+    if (needle.length < 2) return []
+    return regionHotspots
+      .filter(hotspot => !codes.includes(hotspot.locId) && hotspot.locName.toLowerCase().includes(needle))
+      .slice(0, MAX_SUGGESTIONS)
+  }, [query, regionHotspots, codes])
+
+  /**
+   * Add a location code, reporting why it cannot be added
+   */
+  const addCode = (code: string) => {
+    const problem = validateLocationCode(code, codes)
+    if (problem) {
+      setError(problem)
+      return
+    }
+    setError(null)
+    setQuery('')
+    onChange(formatLocationList([...codes, code.trim().toUpperCase()]))
+  }
+
+  /**
+   * Remove a location from the list
+   */
+  const removeCode = (code: string) => {
+    setError(null)
+    onChange(formatLocationList(codes.filter(existing => existing !== code)))
+  }
+
+  /**
+   * Add typed codes on Enter or comma, or the first name match when the text is not a code
+   */
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Backspace' && !query && codes.length > 0) {
+      removeCode(codes[codes.length - 1])
+      return
+    }
+    if (e.key !== 'Enter' && e.key !== ',') return
+
+    e.preventDefault()
+    const text = query.trim()
+    if (!text) return
+    if (/^L\d+$/i.test(text) || suggestions.length === 0) {
+      addCode(text)
+    } else {
+      addCode(suggestions[0].locId)
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label htmlFor="additionalLocations">Additional Locations</Label>
+        <span className={`text-xs ${isFull ? 'text-destructive' : 'text-muted-foreground'}`}>
+          {codes.length}/{MAX_LOCATIONS}
+        </span>
+      </div>
+
+      {codes.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {codes.map((code) => {
+            const hotspot = hotspots.get(code)
+            const isUnknown = hotspot === null
+            return (
+              <span
+                key={code}
+                className={`inline-flex max-w-full items-center rounded-full border px-2 py-0.5 text-xs ${
+                  isUnknown ? 'border-destructive text-destructive' : 'border-primary'
+                }`}
+                title={isUnknown ? `${code} was not found on eBird` : code}
+              >
+                <span className="truncate">{hotspot?.locName ?? code}</span>
+                <button
+                  type="button"
+                  className="ml-1 hover:text-destructive"
+                  onClick={() => removeCode(code)}
+                  aria-label={`Remove ${hotspot?.locName ?? code}`}
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </span>
+            )
+          })}
+        </div>
+      )}
+
+      <div className="relative">
+        <Input
+          id="additionalLocations"
+          placeholder={isFull ? 'Location limit reached' : 'Hotspot name or L-code'}
+          value={query}
+          disabled={isFull}
+          onChange={(e) => {
+            setQuery(e.target.value)
+            setError(null)
+          }}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setShowSuggestions(true)}
+          onBlur={() => setShowSuggestions(false)}
+          autoComplete="off"
+        />
+        {showSuggestions && suggestions.length > 0 && (
+          <ul className="absolute z-50 mt-1 w-full rounded-md border bg-popover text-popover-foreground shadow-md text-sm">
+            {suggestions.map((hotspot) => (
+              <li key={hotspot.locId}>
+                <button
+                  type="button"
+                  className="w-full px-3 py-1.5 text-left hover:bg-muted"
+                  // Keep focus in the input so blur does not hide the list before the click lands
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => addCode(hotspot.locId)}
+                >
+                  <span className="block truncate">{hotspot.locName}</span>
+                  <span className="text-xs text-muted-foreground">
+                    {hotspot.locId}
+                    {hotspot.numSpeciesAllTime !== undefined && ` · ${hotspot.numSpeciesAllTime} species`}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {error && (
+        <p className="flex items-center text-xs text-destructive">
+          <AlertCircle className="h-3 w-3 mr-1 shrink-0" />
+          {error}
+        </p>
+      )}
+
+      {onPickingChange && (
+        <Button
+          type="button"
+          variant={isPicking ? 'default' : 'outline'}
+          size="sm"
+          className="w-full"
+          disabled={isFull && !isPicking}
+          onClick={() => onPickingChange(!isPicking)}
+        >
+          <MousePointerClick className="h-4 w-4 mr-2" />
+          {isPicking ? 'Done picking' : 'Pick hotspots on the map'}
+        </Button>
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        {regionHotspots.length > 0
+          ? 'Search hotspots in this region by name, or type location codes'
+          : 'Choose a state or county to search its hotspots by name'}
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,71 @@
+'use client'
+
+import { Flame, Layers, MapPin, Shapes } from 'lucide-react'
+import { HEATMAP_WEIGHTS, HeatmapWeight, MAP_LAYER_MODES, MapLayerMode } from '@/lib/map-layers'
+
+/**
+ * Props for the MapLayerSwitcher component
+ */
+interface MapLayerSwitcherProps {
+  mode: MapLayerMode
+  onModeChange: (mode: MapLayerMode) => void
+  heatmapWeight: HeatmapWeight
+  onHeatmapWeightChange: (weight: HeatmapWeight) => void
+}
+
+const MODE_ICONS: Record<MapLayerMode, typeof MapPin> = {
+  pins: MapPin,
+  clusters: Layers,
+  heatmap: Flame,
+  regions: Shapes,
+}
+
+/**
+ * Map control choosing how sightings are drawn, with the heatmap weighting when it applies
+ */
+export function MapLayerSwitcher({ mode, onModeChange, heatmapWeight, onHeatmapWeightChange }: MapLayerSwitcherProps) {
+  return (
+    <div className="rounded-lg border bg-background/95 p-1 shadow-md text-xs">
+      <div className="flex" role="radiogroup" aria-label="Map layer">
+        {MAP_LAYER_MODES.map(({ mode: option, label }) => {
+          const Icon = MODE_ICONS[option]
+          return (
+            <button
+              key={option}
+              type="button"
+              role="radio"
+              aria-checked={mode === option}
+              className={`flex items-center rounded-md px-2 py-1 ${
+                mode === option ? 'bg-primary text-primary-foreground' : 'hover:bg-muted'
+              }`}
+              onClick={() => onModeChange(option)}
+            >
+              <Icon className="h-3 w-3 mr-1" />
+              {label}
+            </button>
+          )
+        })}
+      </div>
+
+      {mode === 'heatmap' && (
+        <div className="flex items-center justify-between space-x-2 px-2 pt-1.5 pb-0.5">
+          <span className="text-muted-foreground">Weight by</span>
+          <div className="flex" role="radiogroup" aria-label="Heatmap weight">
+            {HEATMAP_WEIGHTS.map(({ weight, label }) => (
+              <button
+                key={weight}
+                type="button"
+                role="radio"
+                aria-checked={heatmapWeight === weight}
+                className={`rounded-md px-1.5 py-0.5 ${heatmapWeight === weight ? 'bg-muted font-medium' : 'hover:bg-muted'}`}
+                onClick={() => onHeatmapWeightChange(weight)}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,69 @@
+'use client'
+
+import { useState } from 'react'
+import { format } from 'date-fns'
+import { AlertTriangle, HardDrive, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { OfflineDataset } from '@/types/ebird'
+
+/**
+ * Props for the OfflineDatasetBanner component
+ */
+interface OfflineDatasetBannerProps {
+  dataset: OfflineDataset
+  visibleCount: number
+  onClose: () => void
+}
+
+/**
+ * Bar above the map marking the results as an imported file rather than live data
+ * Lists the rows that could not be read
+ */
+export function OfflineDatasetBanner({ dataset, visibleCount, onClose }: OfflineDatasetBannerProps) {
+  const [showIssues, setShowIssues] = useState(false)
+  const total = dataset.sightings.length
+
+  return (
+    <div className="border-b border-amber-300 bg-amber-50 px-4 py-2 text-sm text-amber-900">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2 min-w-0">
+          <HardDrive className="h-4 w-4 shrink-0" />
+          <span className="font-medium whitespace-nowrap">Offline dataset</span>
+          <span className="truncate">{dataset.fileName}</span>
+          <span className="whitespace-nowrap">· captured {format(new Date(dataset.capturedAt), 'MMM d, yyyy HH:mm')}</span>
+        </div>
+        <div className="flex items-center space-x-3 ml-2">
+          <span className="text-xs whitespace-nowrap">
+            {visibleCount === total ? `${total} sightings` : `${visibleCount} of ${total} sightings`}
+          </span>
+          {dataset.issues.length > 0 && (
+            <button
+              type="button"
+              className="flex items-center text-xs underline whitespace-nowrap"
+              onClick={() => setShowIssues(!showIssues)}
+            >
+              <AlertTriangle className="h-3 w-3 mr-1" />
+              {showIssues ? 'Hide skipped rows' : 'Show skipped rows'}
+            </button>
+          )}
+          <Button variant="outline" size="sm" className="h-7 px-2 bg-transparent" onClick={onClose}>
+            <X className="h-3 w-3 mr-1" />
+            Back to live data
+          </Button>
+        </div>
+      </div>
+
+      {showIssues && (
+        <ul className="mt-2 max-h-40 overflow-y-auto space-y-0.5 text-xs">
+          {dataset.issues.map((issue, index) => (
+            <li key={index}>
+              {issue.row > 0 && <span className="font-medium">Row {issue.row}: </span>}
+              {issue.field && <span className="font-mono">{issue.field} </span>}
+              {issue.message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,21 @@
+import { RARITY_TIERS, RARITY_TIER_INFO } from '@/lib/rare-alerts'
+
+/**
+ * Map legend explaining the marker colors for each rarity tier
+ */
+export function RarityLegend() {
+  return (
+    <div className="rounded-lg border bg-background/95 p-3 shadow-md text-xs space-y-1.5">
+      <p className="font-medium">Rarity</p>
+      {RARITY_TIERS.map((tier) => (
+        <div key={tier} className="flex items-center space-x-2" title={RARITY_TIER_INFO[tier].description}>
+          <span
+            className="inline-block h-3 w-3 rounded-full border border-white shadow"
+            style={{ backgroundColor: RARITY_TIER_INFO[tier].color }}
+          />
+          <span>{RARITY_TIER_INFO[tier].label}</span>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,254 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns'
+import { Search, SlidersHorizontal, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Slider } from '@/components/ui/slider'
+import { DEFAULT_CLIENT_FILTERS, countActiveClientFilters, getClientFilterFacets } from '@/lib/client-filters'
+import { ClientFilters, EBirdSighting } from '@/types/ebird'
+
+/**
+ * Props for the RefinePanel component
+ */
+interface RefinePanelProps {
+  sightings: EBirdSighting[]
+  filters: ClientFilters
+  matchCount: number
+  onFiltersChange: (filters: ClientFilters) => void
+}
+
+// Radix Select items cannot have an empty value
+const ALL_COUNTIES = 'all'
+
+/**
+ * Instant filters over the loaded sightings
+ * Unlike FilterPanel these never trigger a new eBird request
+ */
+export function RefinePanel({ sightings, filters, matchCount, onFiltersChange }: RefinePanelProps) {
+  const [speciesQuery, setSpeciesQuery] = useState('')
+  const facets = useMemo(() => getClientFilterFacets(sightings), [sightings])
+  const activeCount = countActiveClientFilters(filters)
+
+  /**
+   * Handle individual filter changes
+   */
+  const handleFilterChange = <K extends keyof ClientFilters>(key: K, value: ClientFilters[K]) => {
+    onFiltersChange({ ...filters, [key]: value })
+  }
+
+  /**
+   * Add or remove a species from the selection
+   */
+  const toggleSpecies = (speciesCode: string) => {
+    handleFilterChange(
+      'species',
+      filters.species.includes(speciesCode)
+        ? filters.species.filter(code => code !== speciesCode)
+        : [...filters.species, speciesCode]
+    )
+  }
+
+  const matchingSpecies = useMemo(() => {
+    const needle = speciesQuery.trim().toLowerCase()
+    if (!needle) return facets.species
+    return facets.species.filter(species =>
+      species.name.toLowerCase().includes(needle) ||
+      species.secondaryName?.toLowerCase().includes(needle)
+    )
+  }, [facets.species, speciesQuery])
+
+  // Observation dates as day offsets from the first day in the results
+  const totalDays = facets.firstDay && facets.lastDay
+    ? differenceInCalendarDays(parseISO(facets.lastDay), parseISO(facets.firstDay))
+    : 0
+  const toOffset = (day: string | undefined, fallback: number) =>
+    day && facets.firstDay
+      ? Math.min(totalDays, Math.max(0, differenceInCalendarDays(parseISO(day), parseISO(facets.firstDay))))
+      : fallback
+  const toDay = (offset: number) => format(addDays(parseISO(facets.firstDay!), offset), 'yyyy-MM-dd')
+  const dateRange = [toOffset(filters.dateFrom, 0), toOffset(filters.dateTo, totalDays)]
+
+  /**
+   * Store the slider range as days, leaving each end unset when it is at the edge of the results
+   */
+  const handleDateRangeChange = ([from, to]: number[]) => {
+    onFiltersChange({
+      ...filters,
+      dateFrom: from > 0 ? toDay(from) : undefined,
+      dateTo: to < totalDays ? toDay(to) : undefined,
+    })
+  }
+
+  const speciesNames = new Map(facets.species.map(species => [species.code, species.name]))
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold flex items-center">
+          <SlidersHorizontal className="h-4 w-4 mr-2" />
+          Refine
+        </h2>
+        <span className="text-xs text-muted-foreground">
+          {matchCount} of {sightings.length} sightings
+        </span>
+      </div>
+
+      {/* Species */}
+      <div className="space-y-2">
+        <Label htmlFor="speciesSearch">Species</Label>
+        {filters.species.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {filters.species.map((code) => (
+              <button
+                key={code}
+                type="button"
+                className="inline-flex items-center rounded-full bg-secondary px-2 py-0.5 text-xs hover:bg-secondary/80"
+                onClick={() => toggleSpecies(code)}
+              >
+                {speciesNames.get(code) ?? code}
+                <X className="h-3 w-3 ml-1" />
+              </button>
+            ))}
+          </div>
+        )}
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            id="speciesSearch"
+            placeholder="Common or scientific name"
+            value={speciesQuery}
+            onChange={(e) => setSpeciesQuery(e.target.value)}
+            className="pl-10"
+          />
+        </div>
+        <ul className="max-h-40 overflow-y-auto rounded-md border text-xs">
+          {matchingSpecies.map((species) => (
+            <li key={species.code}>
+              <label className="flex cursor-pointer items-center space-x-2 px-2 py-1 hover:bg-muted">
+                <input
+                  type="checkbox"
+                  checked={filters.species.includes(species.code)}
+                  onChange={() => toggleSpecies(species.code)}
+                  className="rounded border-gray-300"
+                />
+                <span className="flex-1">
+                  {species.name} <span className="italic text-muted-foreground">{species.secondaryName}</span>
+                </span>
+                <span className="text-muted-foreground">{species.count}</span>
+              </label>
+            </li>
+          ))}
+          {matchingSpecies.length === 0 && (
+            <li className="px-2 py-1 text-muted-foreground">No matching species</li>
+          )}
+        </ul>
+      </div>
+
+      {/* Report Status */}
+      <div className="space-y-2">
+        <div className="flex items-center space-x-2">
+          <input
+            type="checkbox"
+            id="confirmedOnly"
+            checked={filters.confirmedOnly}
+            onChange={(e) => handleFilterChange('confirmedOnly', e.target.checked)}
+            className="rounded border-gray-300"
+          />
+          <Label htmlFor="confirmedOnly">Confirmed only</Label>
+        </div>
+        <div className="flex items-center space-x-2">
+          <input
+            type="checkbox"
+            id="hasRichMedia"
+            checked={filters.hasRichMedia}
+            onChange={(e) => handleFilterChange('hasRichMedia', e.target.checked)}
+            className="rounded border-gray-300"
+          />
+          <Label htmlFor="hasRichMedia">With photos or audio</Label>
+        </div>
+        <div className="flex items-center space-x-2">
+          <input
+            type="checkbox"
+            id="hasComments"
+            checked={filters.hasComments}
+            onChange={(e) => handleFilterChange('hasComments', e.target.checked)}
+            className="rounded border-gray-300"
+          />
+          <Label htmlFor="hasComments">With comments</Label>
+        </div>
+      </div>
+
+      {/* Minimum Count */}
+      <div className="space-y-2">
+        <Label htmlFor="minHowMany">Minimum Count</Label>
+        <Input
+          id="minHowMany"
+          type="number"
+          min="1"
+          placeholder="Any number of birds"
+          value={filters.minHowMany ?? ''}
+          onChange={(e) => {
+            const value = e.target.value ? parseInt(e.target.value) : undefined
+            handleFilterChange('minHowMany', Number.isFinite(value) ? value : undefined)
+          }}
+        />
+      </div>
+
+      {/* County */}
+      {facets.counties.length > 0 && (
+        <div className="space-y-2">
+          <Label>County</Label>
+          <Select
+            value={filters.county ?? ALL_COUNTIES}
+            onValueChange={(value) => handleFilterChange('county', value === ALL_COUNTIES ? undefined : value)}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_COUNTIES}>All counties</SelectItem>
+              {facets.counties.map((county) => (
+                <SelectItem key={county.code} value={county.code}>
+                  {county.name}, {county.secondaryName} ({county.count})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {/* Observation Dates */}
+      {totalDays > 0 && (
+        <div className="space-y-3">
+          <Label>Observation Dates</Label>
+          <Slider
+            min={0}
+            max={totalDays}
+            step={1}
+            minStepsBetweenThumbs={0}
+            value={dateRange}
+            onValueChange={handleDateRangeChange}
+          />
+          <div className="flex justify-between text-xs text-muted-foreground">
+            <span>{format(addDays(parseISO(facets.firstDay!), dateRange[0]), 'MMM d')}</span>
+            <span>{format(addDays(parseISO(facets.firstDay!), dateRange[1]), 'MMM d')}</span>
+          </div>
+        </div>
+      )}
+
+      {activeCount > 0 && (
+        <Button
+          variant="outline"
+          className="w-full"
+          onClick={() => onFiltersChange(DEFAULT_CLIENT_FILTERS)}
+        >
+          Clear {activeCount} {activeCount === 1 ? 'refinement' : 'refinements'}
+        </Button>
+      )}
+    </div>
+  )
+}
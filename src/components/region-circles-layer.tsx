@@ -0,0 +1,47 @@
+'use client'
+
+import { CircleMarker, Tooltip } from 'react-leaflet'
+import { RegionCount, getRegionCountColor } from '@/lib/map-layers'
+
+/**
+ * Props for the RegionCirclesLayer component
+ */
+interface RegionCirclesLayerProps {
+  regions: RegionCount[]
+  breaks: number[]
+  onSelectRegion?: (regionCode: string) => void
+}
+
+/**
+ * One circle per county or state at the mean position of its reports, shaded and sized by their number
+ * There is no boundary data, so regions are not drawn as shapes; clicking a circle searches its region
+ */
+export function RegionCirclesLayer({ regions, breaks, onSelectRegion }: RegionCirclesLayerProps) {
+  const maxCount = breaks[breaks.length - 1] ?? 1
+
+  return (
+    <>
+      {regions.map((region) => (
+        <CircleMarker
+          key={region.code}
+          center={[region.lat, region.lng]}
+          radius={12 + 28 * Math.sqrt(region.count / maxCount)}
+          pathOptions={{
+            color: '#ffffff',
+            weight: 2,
+            fillColor: getRegionCountColor(region.count, breaks),
+            fillOpacity: 0.75,
+          }}
+          eventHandlers={onSelectRegion ? { click: () => onSelectRegion(region.code) } : undefined}
+        >
+          <Tooltip>
+            <span className="font-medium">{region.name}</span>
+            <br />
+            {region.count} notable {region.count === 1 ? 'report' : 'reports'}
+            {onSelectRegion && <span className="block text-muted-foreground">Click to search this region</span>}
+          </Tooltip>
+        </CircleMarker>
+      ))}
+    </>
+  )
+}
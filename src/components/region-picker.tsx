@@ -0,0 +1,241 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { AlertCircle, CheckCircle2, Globe, Loader2 } from 'lucide-react'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { getRegionCodeType, getRegionName, getRegionPath, listRegions } from '@/lib/region-directory'
+import { EBirdRegion } from '@/types/ebird'
+
+/**
+ * Result of checking a region code against eBird
+ */
+export interface RegionValidation {
+  status: 'idle' | 'checking' | 'valid' | 'invalid'
+  name?: string
+  message?: string
+}
+
+/**
+ * Props for the RegionPicker component
+ */
+interface RegionPickerProps {
+  value: string
+  onChange: (regionCode: string) => void
+  onValidationChange?: (validation: RegionValidation) => void
+  lookupEnabled?: boolean
+}
+
+// Radix Select items cannot have an empty value
+const ANY_REGION = 'any'
+const MAX_SUGGESTIONS = 8
+const VALIDATION_DELAY_MS = 400
+
+/**
+ * Region code field with a country → state → county picker and name autocomplete
+ * Region lists come from the eBird sub-region endpoint; the typed code is checked with region info
+ */
+export function RegionPicker({ value, onChange, onValidationChange, lookupEnabled = true }: RegionPickerProps) {
+  const [countries, setCountries] = useState<EBirdRegion[]>([])
+  const [states, setStates] = useState<EBirdRegion[]>([])
+  const [counties, setCounties] = useState<EBirdRegion[]>([])
+  const [validation, setValidation] = useState<RegionValidation>({ status: 'idle' })
+  const [showSuggestions, setShowSuggestions] = useState(false)
+  const path = useMemo(() => getRegionPath(value.trim()), [value])
+
+  // Countries are loaded once lookups are possible
+  useEffect(() => {
+    if (!lookupEnabled) return
+    listRegions('country', 'world')
+      .then(setCountries)
+      .catch(error => console.error('Failed to load countries:', error))
+  }, [lookupEnabled])
+
+  // States of the selected country
+  useEffect(() => {
+    setStates([])
+    if (!lookupEnabled || !path.country) return
+    let cancelled = false
+    listRegions('subnational1', path.country)
+      .then(regions => !cancelled && setStates(regions))
+      .catch(error => console.error('Failed to load states:', error))
+    return () => { cancelled = true }
+  }, [lookupEnabled, path.country])
+
+  // Counties of the selected state
+  useEffect(() => {
+    setCounties([])
+    if (!lookupEnabled || !path.subnational1) return
+    let cancelled = false
+    listRegions('subnational2', path.subnational1)
+      .then(regions => !cancelled && setCounties(regions))
+      .catch(error => console.error('Failed to load counties:', error))
+    return () => { cancelled = true }
+  }, [lookupEnabled, path.subnational1])
+
+  // Check the code once typing pauses
+  useEffect(() => {
+    const code = value.trim()
+    if (!code) {
+      setValidation({ status: 'invalid', message: 'Enter a region code' })
+      return
+    }
+    if (!getRegionCodeType(code)) {
+      setValidation({ status: 'invalid', message: 'Use a code like US, US-NY, US-NY-001 or L123456' })
+      return
+    }
+    if (!lookupEnabled) {
+      setValidation({ status: 'idle' })
+      return
+    }
+
+    let cancelled = false
+    setValidation({ status: 'checking' })
+    const timer = setTimeout(() => {
+      getRegionName(code)
+        .then(name => {
+          if (cancelled) return
+          setValidation(name
+            ? { status: 'valid', name }
+            : { status: 'invalid', message: `eBird does not recognise ${code.toUpperCase()}` })
+        })
+        .catch(error => {
+          // Network or key problems should not block a search; the map reports them on Apply
+          console.error('Failed to validate region code:', error)
+          if (!cancelled) setValidation({ status: 'idle' })
+        })
+    }, VALIDATION_DELAY_MS)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [value, lookupEnabled])
+
+  useEffect(() => {
+    onValidationChange?.(validation)
+  }, [validation, onValidationChange])
+
+  // Name matches across every list loaded so far
+  const suggestions = useMemo(() => {
+    const query = value.trim().toLowerCase()
+    if (query.length < 2) return []
+    return [...counties, ...states, ...countries]
+      .filter(region => region.name.toLowerCase().includes(query) && region.code.toLowerCase() !== query)
+      .slice(0, MAX_SUGGESTIONS)
+  }, [value, countries, states, counties])
+
+  /**
+   * Pick a level of the hierarchy; "any" keeps the parent region
+   */
+  const handleLevelChange = (code: string, parentCode?: string) => {
+    onChange(code === ANY_REGION ? parentCode ?? '' : code)
+  }
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="regionCode">Region</Label>
+      <div className="relative">
+        <Globe className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+        <Input
+          id="regionCode"
+          placeholder="Search by name or enter a code"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onFocus={() => setShowSuggestions(true)}
+          onBlur={() => setShowSuggestions(false)}
+          className="pl-10"
+          autoComplete="off"
+        />
+        {showSuggestions && suggestions.length > 0 && (
+          <ul className="absolute z-50 mt-1 w-full rounded-md border bg-popover text-popover-foreground shadow-md text-sm">
+            {suggestions.map((region) => (
+              <li key={region.code}>
+                <button
+                  type="button"
+                  className="flex w-full justify-between px-3 py-1.5 text-left hover:bg-muted"
+                  // Keep focus in the input so blur does not hide the list before the click lands
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => {
+                    onChange(region.code)
+                    setShowSuggestions(false)
+                  }}
+                >
+                  <span>{region.name}</span>
+                  <span className="text-xs text-muted-foreground">{region.code}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Hierarchy */}
+      {countries.length > 0 && (
+        <Select value={path.country ?? ''} onValueChange={(code) => handleLevelChange(code)}>
+          <SelectTrigger>
+            <SelectValue placeholder="Country" />
+          </SelectTrigger>
+          <SelectContent>
+            {countries.map((region) => (
+              <SelectItem key={region.code} value={region.code}>{region.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+      {states.length > 0 && (
+        <Select
+          value={path.subnational1 ?? ANY_REGION}
+          onValueChange={(code) => handleLevelChange(code, path.country)}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY_REGION}>All states / provinces</SelectItem>
+            {states.map((region) => (
+              <SelectItem key={region.code} value={region.code}>{region.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+      {counties.length > 0 && (
+        <Select
+          value={path.subnational2 ?? ANY_REGION}
+          onValueChange={(code) => handleLevelChange(code, path.subnational1)}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY_REGION}>All counties</SelectItem>
+            {counties.map((region) => (
+              <SelectItem key={region.code} value={region.code}>{region.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
+      {/* Validation */}
+      {validation.status === 'checking' && (
+        <p className="flex items-center text-xs text-muted-foreground">
+          <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+          Checking region...
+        </p>
+      )}
+      {validation.status === 'valid' && (
+        <p className="flex items-center text-xs text-muted-foreground">
+          <CheckCircle2 className="h-3 w-3 mr-1 text-green-600" />
+          {validation.name}
+        </p>
+      )}
+      {validation.status === 'invalid' && (
+        <p className="flex items-center text-xs text-destructive">
+          <AlertCircle className="h-3 w-3 mr-1" />
+          {validation.message}
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,60 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Globe, MapPin } from 'lucide-react'
+import { getRegionName } from '@/lib/region-directory'
+import { FilterOptions } from '@/types/ebird'
+
+/**
+ * Props for the ResultsHeader component
+ */
+interface ResultsHeaderProps {
+  filters: FilterOptions
+  totalCount: number
+  visibleCount: number
+  children?: React.ReactNode
+}
+
+/**
+ * Summary line above the map naming the searched area and counting the results
+ * Children, such as refresh controls, are shown after the count
+ */
+export function ResultsHeader({ filters, totalCount, visibleCount, children }: ResultsHeaderProps) {
+  const [regionName, setRegionName] = useState<string | null>(null)
+  const isNearby = filters.searchMode === 'nearby'
+
+  useEffect(() => {
+    setRegionName(null)
+    if (isNearby) return
+
+    let cancelled = false
+    getRegionName(filters.regionCode)
+      .then(name => !cancelled && setRegionName(name))
+      .catch(error => console.error('Failed to load region name:', error))
+    return () => { cancelled = true }
+  }, [isNearby, filters.regionCode])
+
+  const area = isNearby
+    ? `Within ${filters.dist ?? 25} km of ${filters.lat?.toFixed(3)}, ${filters.lng?.toFixed(3)}`
+    : regionName ?? filters.regionCode.toUpperCase()
+
+  return (
+    <div className="flex items-center justify-between border-b border-border bg-card px-4 py-2 text-sm">
+      <div className="flex items-center space-x-2 min-w-0">
+        {isNearby ? <MapPin className="h-4 w-4 text-primary" /> : <Globe className="h-4 w-4 text-primary" />}
+        <span className="font-medium truncate">{area}</span>
+        <span className="text-muted-foreground whitespace-nowrap">
+          · last {filters.back} {filters.back === 1 ? 'day' : 'days'}
+        </span>
+      </div>
+      <div className="flex items-center space-x-3 ml-2">
+        <span className="text-xs text-muted-foreground whitespace-nowrap">
+          {visibleCount === totalCount
+            ? `${totalCount} notable ${totalCount === 1 ? 'sighting' : 'sightings'}`
+            : `${visibleCount} of ${totalCount} notable sightings`}
+        </span>
+        {children}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,170 @@
+'use client'
+
+import { useState } from 'react'
+import { ArrowDown, ArrowUp, Bookmark, Check, Pencil, Trash2, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { useSavedSearches } from '@/hooks/use-saved-searches'
+import { FilterOptions, SavedSearch } from '@/types/ebird'
+
+/**
+ * Props for the SavedSearches component
+ */
+interface SavedSearchesProps {
+  filters: FilterOptions
+  onLoadSearch: (filters: FilterOptions) => void
+}
+
+/**
+ * Short description of what a saved search looks for
+ */
+function describeSearch(filters: FilterOptions): string {
+  const where = filters.searchMode === 'nearby'
+    ? `${filters.dist ?? 25} km around ${filters.lat?.toFixed(2)}, ${filters.lng?.toFixed(2)}`
+    : filters.regionCode
+  return `${where} · ${filters.back}d${filters.hotspot ? ' · hotspots' : ''}`
+}
+
+/**
+ * Named searches saved in this browser
+ * Lets the user save the current filters, then load, rename, reorder and delete them
+ */
+export function SavedSearches({ filters, onLoadSearch }: SavedSearchesProps) {
+  const { savedSearches, saveSearch, renameSearch, moveSearch, deleteSearch } = useSavedSearches()
+  const [newName, setNewName] = useState('')
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editingName, setEditingName] = useState('')
+
+  /**
+   * Save the current filters under the typed name
+   */
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!newName.trim()) return
+    saveSearch(newName, filters)
+    setNewName('')
+  }
+
+  /**
+   * Start renaming a saved search inline
+   */
+  const startRename = (search: SavedSearch) => {
+    setEditingId(search.id)
+    setEditingName(search.name)
+  }
+
+  /**
+   * Commit the inline rename
+   */
+  const handleRename = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (editingId && editingName.trim()) {
+      renameSearch(editingId, editingName)
+    }
+    setEditingId(null)
+  }
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="savedSearchName">Saved Searches</Label>
+
+      {savedSearches.length > 0 && (
+        <ul className="space-y-1">
+          {savedSearches.map((search, index) => (
+            <li key={search.id} className="rounded-md border px-2 py-1.5 text-sm">
+              {editingId === search.id ? (
+                <form onSubmit={handleRename} className="flex items-center space-x-1">
+                  <Input
+                    value={editingName}
+                    onChange={(e) => setEditingName(e.target.value)}
+                    className="h-7 text-sm"
+                    autoFocus
+                  />
+                  <Button type="submit" variant="ghost" size="icon" className="h-7 w-7" title="Save name">
+                    <Check className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    title="Cancel"
+                    onClick={() => setEditingId(null)}
+                  >
+                    <X className="h-3.5 w-3.5" />
+                  </Button>
+                </form>
+              ) : (
+                <div className="flex items-center space-x-1">
+                  <button
+                    type="button"
+                    className="flex-1 min-w-0 text-left hover:text-primary"
+                    onClick={() => onLoadSearch(search.filters)}
+                    title="Load these filters"
+                  >
+                    <span className="block truncate font-medium">{search.name}</span>
+                    <span className="block truncate text-xs text-muted-foreground">
+                      {describeSearch(search.filters)}
+                    </span>
+                  </button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    title="Move up"
+                    disabled={index === 0}
+                    onClick={() => moveSearch(search.id, -1)}
+                  >
+                    <ArrowUp className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    title="Move down"
+                    disabled={index === savedSearches.length - 1}
+                    onClick={() => moveSearch(search.id, 1)}
+                  >
+                    <ArrowDown className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    title="Rename"
+                    onClick={() => startRename(search)}
+                  >
+                    <Pencil className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    title="Delete"
+                    onClick={() => deleteSearch(search.id)}
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={handleSave} className="flex items-center space-x-2">
+        <Input
+          id="savedSearchName"
+          placeholder="Name these filters"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+        />
+        <Button type="submit" variant="outline" size="sm" disabled={!newName.trim()}>
+          <Bookmark className="h-4 w-4 mr-1" />
+          Save
+        </Button>
+      </form>
+    </div>
+  )
+}
@@ -0,0 +1,19 @@
+'use client'
+
+import { useEffect } from 'react'
+
+/**
+ * Register the offline service worker (public/sw.js)
+ * Skipped in development, where cached pages and chunks would hide code changes
+ */
+export function ServiceWorkerRegistration() {
+  useEffect(() => {
+    if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return
+
+    navigator.serviceWorker
+      .register('/sw.js')
+      .catch(error => console.error('Failed to register service worker:', error))
+  }, [])
+
+  return null
+}
@@ -0,0 +1,180 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { format } from 'date-fns'
+import { ArrowDown, ArrowUp, CheckCircle2, Search, ShieldCheck } from 'lucide-react'
+import { Input } from '@/components/ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { RARITY_TIER_INFO } from '@/lib/rare-alerts'
+import {
+  SpeciesSortKey,
+  SpeciesStatusFilter,
+  SpeciesSummary,
+  compareSpecies,
+  matchesStatus,
+  summarizeSpecies,
+} from '@/lib/species-summary'
+import { parseObsDate } from '@/lib/utils'
+import { EBirdRareAlert } from '@/types/ebird'
+
+/**
+ * Props for the SpeciesList component
+ */
+interface SpeciesListProps {
+  sightings: EBirdRareAlert[]
+  onHoverSpecies?: (speciesCode: string | null) => void
+  onSelectSpecies?: (species: SpeciesSummary) => void
+}
+
+/**
+ * Sortable column headers, with the direction a column starts in when first clicked
+ */
+const COLUMNS: { key: SpeciesSortKey, label: string, className: string, defaultDescending: boolean }[] = [
+  { key: 'comName', label: 'Species', className: 'text-left', defaultDescending: false },
+  { key: 'reportCount', label: 'Reports', className: 'text-right', defaultDescending: true },
+  { key: 'locations', label: 'Locs', className: 'text-right', defaultDescending: true },
+  { key: 'maxHowMany', label: 'Max', className: 'text-right', defaultDescending: true },
+  { key: 'firstSeen', label: 'First', className: 'text-right', defaultDescending: false },
+  { key: 'lastSeen', label: 'Last', className: 'text-right', defaultDescending: true },
+]
+
+/**
+ * Table of the species in the current result set
+ * Hovering a row highlights the species on the map; clicking it focuses its latest location
+ */
+export function SpeciesList({ sightings, onHoverSpecies, onSelectSpecies }: SpeciesListProps) {
+  const [query, setQuery] = useState('')
+  const [status, setStatus] = useState<SpeciesStatusFilter>('all')
+  const [sortKey, setSortKey] = useState<SpeciesSortKey>('lastSeen')
+  const [descending, setDescending] = useState(true)
+
+  const summaries = useMemo(() => summarizeSpecies(sightings), [sightings])
+
+  const visibleSpecies = useMemo(() => {
+    const needle = query.trim().toLowerCase()
+    return summaries
+      .filter(species =>
+        matchesStatus(species, status) &&
+        (!needle ||
+          species.comName.toLowerCase().includes(needle) ||
+          species.sciName.toLowerCase().includes(needle))
+      )
+      .sort((a, b) => {
+        const order = compareSpecies(a, b, sortKey)
+        return descending ? -order : order
+      })
+  }, [summaries, query, status, sortKey, descending])
+
+  /**
+   * Sort by a column, toggling the direction when it is already active
+   */
+  const handleSort = (key: SpeciesSortKey, defaultDescending: boolean) => {
+    if (key === sortKey) {
+      setDescending(!descending)
+    } else {
+      setSortKey(key)
+      setDescending(defaultDescending)
+    }
+  }
+
+  return (
+    <div className="flex h-full flex-col">
+      <div className="space-y-2 border-b p-4">
+        <div className="flex items-baseline justify-between">
+          <h2 className="text-lg font-semibold">Species</h2>
+          <span className="text-xs text-muted-foreground">
+            {visibleSpecies.length} of {summaries.length}
+          </span>
+        </div>
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Filter by name"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            className="pl-10"
+          />
+        </div>
+        <Select value={status} onValueChange={(value) => setStatus(value as SpeciesStatusFilter)}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All reports</SelectItem>
+            <SelectItem value="valid">With valid reports</SelectItem>
+            <SelectItem value="reviewed">With reviewed reports</SelectItem>
+            <SelectItem value="unconfirmed">With unconfirmed reports</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex-1 overflow-y-auto">
+        <table className="w-full text-xs">
+          <thead className="sticky top-0 bg-card">
+            <tr className="border-b">
+              {COLUMNS.map((column) => (
+                <th key={column.key} className={`px-2 py-2 font-medium ${column.className}`}>
+                  <button
+                    type="button"
+                    className="inline-flex items-center space-x-0.5 hover:text-primary"
+                    onClick={() => handleSort(column.key, column.defaultDescending)}
+                  >
+                    <span>{column.label}</span>
+                    {sortKey === column.key && (
+                      descending ? <ArrowDown className="h-3 w-3" /> : <ArrowUp className="h-3 w-3" />
+                    )}
+                  </button>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {visibleSpecies.map((species) => (
+              <tr
+                key={species.speciesCode}
+                className="cursor-pointer border-b hover:bg-muted"
+                onMouseEnter={() => onHoverSpecies?.(species.speciesCode)}
+                onMouseLeave={() => onHoverSpecies?.(null)}
+                onClick={() => onSelectSpecies?.(species)}
+              >
+                <td className="px-2 py-1.5">
+                  <div className="flex items-start space-x-1.5">
+                    <span
+                      className="mt-1 inline-block h-2.5 w-2.5 shrink-0 rounded-full"
+                      style={{ backgroundColor: RARITY_TIER_INFO[species.rarity].color }}
+                      title={RARITY_TIER_INFO[species.rarity].label}
+                    />
+                    <div>
+                      <div className="flex items-center space-x-1">
+                        <span className="font-medium">{species.comName}</span>
+                        {species.reviewedCount > 0 ? (
+                          <span title={`${species.reviewedCount} reviewed`}>
+                            <ShieldCheck className="h-3 w-3 text-blue-600" />
+                          </span>
+                        ) : species.validCount > 0 && (
+                          <span title={`${species.validCount} valid`}>
+                            <CheckCircle2 className="h-3 w-3 text-green-600" />
+                          </span>
+                        )}
+                      </div>
+                      <p className="italic text-muted-foreground">{species.sciName}</p>
+                    </div>
+                  </div>
+                </td>
+                <td className="px-2 py-1.5 text-right">{species.reportCount}</td>
+                <td className="px-2 py-1.5 text-right">{species.locIds.length}</td>
+                <td className="px-2 py-1.5 text-right">{species.maxHowMany ?? '—'}</td>
+                <td className="px-2 py-1.5 text-right whitespace-nowrap">{format(parseObsDate(species.firstSeen), 'MMM d')}</td>
+                <td className="px-2 py-1.5 text-right whitespace-nowrap">{format(parseObsDate(species.lastSeen), 'MMM d')}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {visibleSpecies.length === 0 && (
+          <p className="p-4 text-center text-sm text-muted-foreground">No species match these filters.</p>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,42 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { format } from 'date-fns'
+import { WifiOff } from 'lucide-react'
+
+/**
+ * Props for the StaleResultsBanner component
+ */
+interface StaleResultsBannerProps {
+  asOf: Date
+}
+
+/**
+ * Bar above the map shown while the results come from the offline cache
+ * The results are replaced automatically once the connection returns
+ */
+export function StaleResultsBanner({ asOf }: StaleResultsBannerProps) {
+  const [isOnline, setIsOnline] = useState(true)
+
+  useEffect(() => {
+    const update = () => setIsOnline(navigator.onLine)
+    update()
+    window.addEventListener('online', update)
+    window.addEventListener('offline', update)
+    return () => {
+      window.removeEventListener('online', update)
+      window.removeEventListener('offline', update)
+    }
+  }, [])
+
+  return (
+    <div className="flex items-center space-x-2 border-b border-amber-300 bg-amber-50 px-4 py-2 text-sm text-amber-900">
+      <WifiOff className="h-4 w-4 shrink-0" />
+      <span className="font-medium whitespace-nowrap">{isOnline ? 'eBird unreachable' : 'Offline'}</span>
+      <span className="truncate">
+        · showing results as of {format(asOf, 'MMM d, yyyy HH:mm')}
+        {isOnline ? '; they will refresh with the next update' : '; they will refresh when you are back online'}
+      </span>
+    </div>
+  )
+}
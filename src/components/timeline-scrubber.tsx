@@ -0,0 +1,134 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { format, parseISO } from 'date-fns'
+import { History, Pause, Play, Route } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Slider } from '@/components/ui/slider'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { PLAYBACK_SPEEDS } from '@/lib/timeline'
+
+/**
+ * Props for the TimelineScrubber component
+ */
+interface TimelineScrubberProps {
+  days: string[]
+  day: string | null
+  onDayChange: (day: string | null) => void
+  showTracks: boolean
+  onShowTracksChange: (showTracks: boolean) => void
+}
+
+/**
+ * Bar under the map that plays the results back one day at a time
+ * A null day shows every sighting; dragging or playing shows sightings up to the chosen day
+ */
+export function TimelineScrubber({ days, day, onDayChange, showTracks, onShowTracksChange }: TimelineScrubberProps) {
+  const [playing, setPlaying] = useState(false)
+  const [speed, setSpeed] = useState(1)
+  const lastIndex = days.length - 1
+  const index = day === null ? lastIndex : Math.max(0, days.indexOf(day))
+
+  // Advance one day per tick, stopping on the last day
+  useEffect(() => {
+    if (!playing) return
+    if (index >= lastIndex) {
+      setPlaying(false)
+      return
+    }
+    const timer = setTimeout(() => onDayChange(days[index + 1]), 1000 / speed)
+    return () => clearTimeout(timer)
+  }, [playing, index, lastIndex, days, speed, onDayChange])
+
+  /**
+   * Start playing, from the first day when playback has finished or not started
+   */
+  const handleTogglePlaying = () => {
+    if (playing) {
+      setPlaying(false)
+      return
+    }
+    if (day === null || index >= lastIndex) {
+      onDayChange(days[0])
+    }
+    setPlaying(true)
+  }
+
+  /**
+   * Return to showing every sighting
+   */
+  const handleShowAll = () => {
+    setPlaying(false)
+    onDayChange(null)
+  }
+
+  return (
+    <div className="flex items-center space-x-3 border-t border-border bg-card px-4 py-2 text-sm">
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        className="h-8 w-8 p-0 shrink-0"
+        onClick={handleTogglePlaying}
+        aria-label={playing ? 'Pause playback' : 'Play sightings day by day'}
+        title={playing ? 'Pause playback' : 'Play sightings day by day'}
+      >
+        {playing ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+      </Button>
+
+      <Select value={String(speed)} onValueChange={(value) => setSpeed(Number(value))}>
+        <SelectTrigger className="h-8 w-20 text-xs shrink-0" aria-label="Playback speed">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {PLAYBACK_SPEEDS.map((option) => (
+            <SelectItem key={option} value={String(option)}>
+              {option}×
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Slider
+        min={0}
+        max={lastIndex}
+        step={1}
+        value={[index]}
+        onValueChange={([value]) => {
+          setPlaying(false)
+          onDayChange(days[value])
+        }}
+        aria-label="Timeline day"
+      />
+
+      <span className="w-24 shrink-0 text-xs text-muted-foreground whitespace-nowrap">
+        {day === null ? 'All days' : `Up to ${format(parseISO(day), 'MMM d')}`}
+      </span>
+
+      <Button
+        type="button"
+        variant={showTracks ? 'default' : 'outline'}
+        size="sm"
+        className="h-8 px-2 shrink-0"
+        onClick={() => onShowTracksChange(!showTracks)}
+        title="Connect successive reports of each species"
+      >
+        <Route className="h-4 w-4 mr-1" />
+        Tracks
+      </Button>
+
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        className="h-8 px-2 shrink-0"
+        disabled={day === null}
+        onClick={handleShowAll}
+        title="Show sightings from every day"
+      >
+        <History className="h-4 w-4 mr-1" />
+        All
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,40 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { getHotspot } from '@/lib/region-directory'
+import { EBirdHotspot } from '@/types/ebird'
+
+/**
+ * Resolve location codes to hotspots
+ * Lookups are cached, so several components can resolve the same codes cheaply
+ * @param locIds - Location codes to resolve
+ * @param enabled - Whether lookups are possible (an API key is available)
+ * @returns Resolved hotspots keyed by code; null marks a code eBird does not know
+ */
+export function useHotspots(locIds: string[], enabled = true) {
+  const [hotspots, setHotspots] = useState<Map<string, EBirdHotspot | null>>(new Map())
+  const key = locIds.join(',')
+
+  useEffect(() => {
+    if (!enabled || !key) {
+      setHotspots(new Map())
+      return
+    }
+
+    let cancelled = false
+    const codes = key.split(',')
+    Promise.all(codes.map(code => getHotspot(code).catch(() => undefined)))
+      .then(results => {
+        if (cancelled) return
+        const resolved = new Map<string, EBirdHotspot | null>()
+        // Failed lookups are left out rather than reported as unknown codes
+        results.forEach((hotspot, index) => {
+          if (hotspot !== undefined) resolved.set(codes[index], hotspot)
+        })
+        setHotspots(resolved)
+      })
+    return () => { cancelled = true }
+  }, [key, enabled])
+
+  return hotspots
+}
@@ -0,0 +1,72 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { getSavedSearches, setSavedSearches as storeSavedSearches } from '@/lib/app-storage'
+import { FilterOptions, SavedSearch } from '@/types/ebird'
+
+/**
+ * Named filter snapshots persisted in localStorage
+ * Every change is written through immediately
+ * @returns The saved searches in the user's order and actions to manage them
+ */
+export function useSavedSearches() {
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([])
+
+  // localStorage is only available after hydration
+  useEffect(() => {
+    setSavedSearches(getSavedSearches())
+  }, [])
+
+  /**
+   * Apply a change to the list and persist it
+   */
+  const update = useCallback((change: (searches: SavedSearch[]) => SavedSearch[]) => {
+    setSavedSearches(previous => {
+      const next = change(previous)
+      storeSavedSearches(next)
+      return next
+    })
+  }, [])
+
+  /**
+   * Save a filter snapshot under a name, at the end of the list
+   */
+  const saveSearch = useCallback((name: string, filters: FilterOptions) => {
+    update(searches => [
+      ...searches,
+      { id: crypto.randomUUID(), name: name.trim(), filters, createdAt: new Date().toISOString() },
+    ])
+  }, [update])
+
+  /**
+   * Give a saved search a new name
+   */
+  const renameSearch = useCallback((id: string, name: string) => {
+    update(searches => searches.map(search => search.id === id ? { ...search, name: name.trim() } : search))
+  }, [update])
+
+  /**
+   * Move a search one place up (-1) or down (1)
+   */
+  const moveSearch = useCallback((id: string, offset: -1 | 1) => {
+    update(searches => {
+      const index = searches.findIndex(search => search.id === id)
+      const target = index + offset
+      if (index === -1 || target < 0 || target >= searches.length) return searches
+
+      const next = [...searches]
+      const [moved] = next.splice(index, 1)
+      next.splice(target, 0, moved)
+      return next
+    })
+  }, [update])
+
+  /**
+   * Remove a saved search
+   */
+  const deleteSearch = useCallback((id: string) => {
+    update(searches => searches.filter(search => search.id !== id))
+  }, [update])
+
+  return { savedSearches, saveSearch, renameSearch, moveSearch, deleteSearch }
+}
@@ -0,0 +1,180 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { toRareAlerts } from '@/lib/rare-alerts'
+import { EBirdAuthError } from '@/lib/ebird-errors'
+import { ApiKeySession, EBirdRareAlert, FilterOptions, UserLocation } from '@/types/ebird'
+
+/**
+ * Options for the useSightings hook
+ */
+interface UseSightingsOptions {
+  filters: FilterOptions
+  session?: ApiKeySession
+  userLocation?: UserLocation
+  shouldFetchData: boolean
+  refreshIntervalMs?: number | null
+  onLoaded?: () => void
+  onAuthError?: (message: string) => void
+  onNewSightings?: (sightings: EBirdRareAlert[]) => void
+}
+
+/**
+ * Fetch notable sightings around a point or in a region as rare alerts
+ * @returns The alerts, and when the response was served offline, the time it was cached
+ */
+async function fetchRareAlerts(
+  filters: FilterOptions,
+  userLocation?: UserLocation
+): Promise<{ alerts: EBirdRareAlert[], cachedAt: Date | null }> {
+  // Import API client only on client side; the proxy resolves the key from the session cookie
+  const { ebirdApi, getOfflineCachedAt } = await import('@/lib/ebird-api')
+
+  const isNearby = filters.searchMode === 'nearby' && filters.lat !== undefined && filters.lng !== undefined
+  const data = isNearby
+    ? await ebirdApi.getNearbyNotableObservations(filters.lat!, filters.lng!, {
+        dist: filters.dist,
+        back: filters.back,
+        detail: filters.detail,
+        hotspot: filters.hotspot,
+        maxResults: filters.maxResults,
+        sppLocale: filters.sppLocale,
+      })
+    : await ebirdApi.getNotableObservations(filters.regionCode, filters)
+  return { alerts: toRareAlerts(data, { userLocation }), cachedAt: getOfflineCachedAt(data) }
+}
+
+/**
+ * Fetch notable sightings for the applied filters and convert them into rare alerts
+ * Shared by the map and the species list so both always show the same result set
+ * With a refresh interval the query re-runs in the background; observations not seen
+ * in any earlier response are collected in newObsIds and reported through onNewSightings
+ * Results served from the offline cache set offlineAsOf, and the query re-runs when the browser is back online
+ * @returns The current sightings, loading and error state, new observation ids, cache time and callbacks
+ */
+export function useSightings({
+  filters,
+  session,
+  userLocation,
+  shouldFetchData,
+  refreshIntervalMs,
+  onLoaded,
+  onAuthError,
+  onNewSightings,
+}: UseSightingsOptions) {
+  const [sightings, setSightings] = useState<EBirdRareAlert[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<Error | null>(null)
+  const [retryCount, setRetryCount] = useState(0)
+  const [newObsIds, setNewObsIds] = useState<Set<string>>(new Set())
+  const [lastUpdated, setLastUpdated] = useState<Date | null>(null)
+  const [offlineAsOf, setOfflineAsOf] = useState<Date | null>(null)
+  const seenObsIdsRef = useRef(new Set<string>())
+  // Incremented per query so a refresh that resolves after the filters changed is dropped
+  const queryIdRef = useRef(0)
+  const onNewSightingsRef = useRef(onNewSightings)
+  onNewSightingsRef.current = onNewSightings
+
+  // Fetch sightings data when filters, API key session, or fetch flag changes
+  useEffect(() => {
+    const queryId = ++queryIdRef.current
+
+    const fetchSightings = async () => {
+      if (!session || !shouldFetchData) return
+
+      setLoading(true)
+      setError(null)
+
+      try {
+        const { alerts, cachedAt } = await fetchRareAlerts(filters, userLocation)
+        if (queryId !== queryIdRef.current) return
+
+        // Everything in the first response counts as already seen
+        seenObsIdsRef.current = new Set(alerts.map(alert => alert.obsId))
+        setNewObsIds(new Set())
+        setSightings(alerts)
+        setLastUpdated(cachedAt ?? new Date())
+        setOfflineAsOf(cachedAt)
+
+        // Notify parent that data has loaded
+        onLoaded?.()
+      } catch (err) {
+        if (queryId !== queryIdRef.current) return
+        const fetchError = err instanceof Error ? err : new Error('Failed to fetch sightings')
+        setError(fetchError)
+        console.error('Error fetching sightings:', err)
+        if (fetchError instanceof EBirdAuthError) {
+          onAuthError?.(fetchError.message)
+        }
+      } finally {
+        if (queryId === queryIdRef.current) setLoading(false)
+      }
+    }
+
+    fetchSightings()
+  }, [filters, session, userLocation, shouldFetchData, onLoaded, onAuthError, retryCount])
+
+  /**
+   * Re-run the current query in the background, keeping the results on screen
+   */
+  const refresh = useCallback(async () => {
+    const queryId = queryIdRef.current
+    try {
+      const { alerts, cachedAt } = await fetchRareAlerts(filters, userLocation)
+      if (queryId !== queryIdRef.current) return
+
+      const fresh = alerts.filter(alert => !seenObsIdsRef.current.has(alert.obsId))
+      fresh.forEach(alert => seenObsIdsRef.current.add(alert.obsId))
+      setSightings(alerts)
+      setLastUpdated(cachedAt ?? new Date())
+      setOfflineAsOf(cachedAt)
+
+      if (fresh.length > 0) {
+        setNewObsIds(previous => new Set([...Array.from(previous), ...fresh.map(alert => alert.obsId)]))
+        onNewSightingsRef.current?.(fresh)
+      }
+    } catch (err) {
+      // A failed background refresh keeps the results already on screen
+      console.error('Error refreshing sightings:', err)
+      if (err instanceof EBirdAuthError) {
+        onAuthError?.(err.message)
+      }
+    }
+  }, [filters, userLocation, onAuthError])
+
+  // Re-run the current query on an interval while results are showing
+  useEffect(() => {
+    if (!refreshIntervalMs || !session || !shouldFetchData || loading || error) return
+
+    const timer = setInterval(refresh, refreshIntervalMs)
+    return () => clearInterval(timer)
+  }, [refreshIntervalMs, refresh, session, shouldFetchData, loading, error])
+
+  // Replace failed or cached results once the connection comes back
+  useEffect(() => {
+    if (!session || !shouldFetchData || loading || (!error && !offlineAsOf)) return
+
+    const handleOnline = () => {
+      if (error) {
+        setRetryCount(count => count + 1)
+      } else {
+        refresh()
+      }
+    }
+
+    window.addEventListener('online', handleOnline)
+    return () => window.removeEventListener('online', handleOnline)
+  }, [session, shouldFetchData, loading, error, offlineAsOf, refresh])
+
+  /**
+   * Fetch the same filters again, e.g. after an error
+   */
+  const retry = useCallback(() => setRetryCount(count => count + 1), [])
+
+  /**
+   * Stop treating the current new observations as new
+   */
+  const acknowledgeNew = useCallback(() => setNewObsIds(new Set()), [])
+
+  return { sightings, loading, error, retry, newObsIds, lastUpdated, offlineAsOf, acknowledgeNew }
+}
@@ -0,0 +1,16 @@
+/**
+ * Runs once when the Next.js server starts
+ * Restores remembered API key sessions, then starts the alert subscription scheduler when subscriptions are enabled
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return
+
+  const { loadApiKeySessions } = await import('@/lib/server/api-key-session')
+  await loadApiKeySessions()
+
+  const { getSubscriptionsToken } = await import('@/lib/server/subscription-auth')
+  if (!getSubscriptionsToken()) return
+
+  const { startAlertScheduler } = await import('@/lib/server/alert-scheduler')
+  startAlertScheduler()
+}
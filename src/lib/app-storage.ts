@@ -0,0 +1,161 @@
+import { z } from 'zod'
+import { SavedSearch } from '@/types/ebird'
+
+/**
+ * localStorage key holding all persisted app state
+ */
+export const STORAGE_KEY = 'ebird-rare-alerts'
+
+/**
+ * Current storage format version
+ * Bump it and add a migration from the previous version when the format changes
+ */
+export const STORAGE_VERSION = 1
+
+const filterOptionsSchema = z.object({
+  searchMode: z.enum(['region', 'nearby']),
+  regionCode: z.string(),
+  lat: z.number().optional(),
+  lng: z.number().optional(),
+  dist: z.number().optional(),
+  back: z.number().int(),
+  detail: z.enum(['simple', 'full']),
+  hotspot: z.boolean(),
+  maxResults: z.number().int().optional(),
+  r: z.string().optional(),
+  sppLocale: z.string(),
+})
+
+const savedSearchSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  filters: filterOptionsSchema,
+  createdAt: z.string(),
+})
+
+const storedStateSchema = z.object({
+  version: z.literal(STORAGE_VERSION),
+  savedSearches: z.array(savedSearchSchema),
+  baseLayer: z.string().optional(),
+})
+
+/**
+ * Everything the app keeps in localStorage
+ */
+export type StoredState = z.infer<typeof storedStateSchema>
+
+const EMPTY_STATE: StoredState = {
+  version: STORAGE_VERSION,
+  savedSearches: [],
+}
+
+/**
+ * Upgrades from each older version to the next one, keyed by the version they upgrade from
+ */
+const MIGRATIONS: Record<number, (state: Record<string, unknown>) => Record<string, unknown>> = {}
+
+/**
+ * Whether stored data was written by a newer version of the app
+ */
+function isNewerVersion(data: unknown): boolean {
+  const version = (data as { version?: unknown } | null)?.version
+  return typeof version === 'number' && version > STORAGE_VERSION
+}
+
+/**
+ * Bring stored data up to the current version
+ * Saved searches that fail validation are dropped one by one; the rest of the state is kept
+ * @returns The migrated state, or null when it is unreadable or from a newer version of the app
+ */
+export function migrateStoredState(data: unknown): StoredState | null {
+  if (!data || typeof data !== 'object' || isNewerVersion(data)) return null
+
+  let state = data as Record<string, unknown>
+  let version = typeof state.version === 'number' ? state.version : 0
+  while (version < STORAGE_VERSION) {
+    const migrate = MIGRATIONS[version]
+    if (!migrate) return null
+    state = migrate(state)
+    version += 1
+  }
+
+  const savedSearches = Array.isArray(state.savedSearches) ? state.savedSearches : []
+  const result = storedStateSchema.safeParse({
+    ...state,
+    savedSearches: savedSearches.filter(search => savedSearchSchema.safeParse(search).success),
+    baseLayer: typeof state.baseLayer === 'string' ? state.baseLayer : undefined,
+  })
+  return result.success ? result.data : null
+}
+
+/**
+ * Parsed contents of the storage key, or null when it is missing
+ */
+function readRawState(): unknown {
+  const raw = window.localStorage.getItem(STORAGE_KEY)
+  return raw ? JSON.parse(raw) : null
+}
+
+/**
+ * Read the persisted state, falling back to an empty state when it is missing or unreadable
+ */
+export function readStoredState(): StoredState {
+  if (typeof window === 'undefined') return EMPTY_STATE
+
+  try {
+    return migrateStoredState(readRawState()) || EMPTY_STATE
+  } catch (error) {
+    console.error('Failed to read stored state:', error)
+    return EMPTY_STATE
+  }
+}
+
+/**
+ * Update the persisted state
+ * Data written by a newer version of the app is left untouched; the change then only lasts for this page
+ * @param update - Receives the current state and returns the fields to change
+ * @returns The updated state
+ */
+export function updateStoredState(update: (state: StoredState) => Partial<StoredState>): StoredState {
+  const current = readStoredState()
+  const next = { ...current, ...update(current), version: STORAGE_VERSION } as StoredState
+
+  try {
+    if (isNewerVersion(readRawState())) {
+      console.warn('Stored state is from a newer version of the app; not overwriting it')
+      return next
+    }
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(next))
+  } catch (error) {
+    console.error('Failed to write stored state:', error)
+  }
+  return next
+}
+
+/**
+ * Saved searches in the user's order
+ */
+export function getSavedSearches(): SavedSearch[] {
+  return readStoredState().savedSearches
+}
+
+/**
+ * Replace the saved searches
+ */
+export function setSavedSearches(savedSearches: SavedSearch[]) {
+  updateStoredState(() => ({ savedSearches }))
+}
+
+/**
+ * Id of the map base layer last chosen on this device
+ */
+export function getStoredBaseLayer(): string | undefined {
+  return readStoredState().baseLayer
+}
+
+/**
+ * Remember the chosen map base layer
+ */
+export function setStoredBaseLayer(baseLayer: string) {
+  updateStoredState(() => ({ baseLayer }))
+}
@@ -0,0 +1,136 @@
+import { ClientFilters, EBirdSighting } from '@/types/ebird'
+
+/**
+ * Client filters that keep every loaded sighting
+ */
+export const DEFAULT_CLIENT_FILTERS: ClientFilters = {
+  species: [],
+  confirmedOnly: false,
+  hasRichMedia: false,
+  hasComments: false,
+}
+
+/**
+ * A value present in the loaded sightings, with how many sightings have it
+ */
+export interface FilterFacet {
+  code: string
+  name: string
+  secondaryName?: string
+  count: number
+}
+
+/**
+ * Values the client filters can choose from, derived from the loaded sightings
+ */
+export interface ClientFilterFacets {
+  species: FilterFacet[]
+  counties: FilterFacet[]
+  firstDay?: string
+  lastDay?: string
+}
+
+/**
+ * Day part of an eBird observation date ("2017-08-23 10:11" becomes "2017-08-23")
+ */
+export function obsDay(obsDt: string): string {
+  return obsDt.slice(0, 10)
+}
+
+/**
+ * Whether a sighting was reviewed and accepted
+ */
+export function isConfirmed(sighting: EBirdSighting): boolean {
+  return sighting.obsValid && sighting.obsReviewed
+}
+
+/**
+ * Keep the sightings that match every active client filter
+ * @param sightings - Loaded sightings
+ * @param filters - Active client filters
+ * @returns Matching sightings in their original order
+ */
+export function applyClientFilters<T extends EBirdSighting>(sightings: T[], filters: ClientFilters): T[] {
+  const species = filters.species.length > 0 ? new Set(filters.species) : undefined
+
+  return sightings.filter(sighting => {
+    if (species && !species.has(sighting.speciesCode)) return false
+    if (filters.confirmedOnly && !isConfirmed(sighting)) return false
+    if (filters.hasRichMedia && !sighting.hasRichMedia) return false
+    if (filters.hasComments && !sighting.hasComments) return false
+    if (filters.minHowMany !== undefined && (sighting.howMany ?? 0) < filters.minHowMany) return false
+    if (filters.county && sighting.subnational2Code !== filters.county) return false
+
+    const day = obsDay(sighting.obsDt)
+    if (filters.dateFrom && day < filters.dateFrom) return false
+    if (filters.dateTo && day > filters.dateTo) return false
+    return true
+  })
+}
+
+/**
+ * Number of client filters that narrow the results
+ */
+export function countActiveClientFilters(filters: ClientFilters): number {
+  return [
+    filters.species.length > 0,
+    filters.confirmedOnly,
+    filters.hasRichMedia,
+    filters.hasComments,
+    filters.minHowMany !== undefined,
+    Boolean(filters.county),
+    Boolean(filters.dateFrom || filters.dateTo),
+  ].filter(Boolean).length
+}
+
+/**
+ * Collect the species, counties and date span present in the loaded sightings
+ * @param sightings - Loaded sightings
+ * @returns Species sorted by name, counties sorted by name, and the first and last observation days
+ */
+export function getClientFilterFacets(sightings: EBirdSighting[]): ClientFilterFacets {
+  const species = new Map<string, FilterFacet>()
+  const counties = new Map<string, FilterFacet>()
+  let firstDay: string | undefined
+  let lastDay: string | undefined
+
+  sightings.forEach(sighting => {
+    const speciesFacet = species.get(sighting.speciesCode)
+    if (speciesFacet) {
+      speciesFacet.count += 1
+    } else {
+      species.set(sighting.speciesCode, {
+        code: sighting.speciesCode,
+        name: sighting.comName,
+        secondaryName: sighting.sciName,
+        count: 1,
+      })
+    }
+
+    if (sighting.subnational2Code) {
+      const countyFacet = counties.get(sighting.subnational2Code)
+      if (countyFacet) {
+        countyFacet.count += 1
+      } else {
+        counties.set(sighting.subnational2Code, {
+          code: sighting.subnational2Code,
+          name: sighting.subnational2Name ?? sighting.subnational2Code,
+          secondaryName: sighting.subnational1Name,
+          count: 1,
+        })
+      }
+    }
+
+    const day = obsDay(sighting.obsDt)
+    if (!firstDay || day < firstDay) firstDay = day
+    if (!lastDay || day > lastDay) lastDay = day
+  })
+
+  const byName = (a: FilterFacet, b: FilterFacet) => a.name.localeCompare(b.name)
+  return {
+    species: Array.from(species.values()).sort(byName),
+    counties: Array.from(counties.values()).sort(byName),
+    firstDay,
+    lastDay,
+  }
+}
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest'
+import { dedupeByObsId } from '@/lib/dedupe'
+
+describe('dedupeByObsId', () => {
+  it('keeps the first report of each observation, in order', () => {
+    const sightings = [
+      { obsId: 'OBS1', locId: 'L1' },
+      { obsId: 'OBS2', locId: 'L1' },
+      { obsId: 'OBS1', locId: 'L2' },
+      { obsId: 'OBS3', locId: 'L2' },
+      { obsId: 'OBS2', locId: 'L3' },
+    ]
+
+    expect(dedupeByObsId(sightings)).toEqual([
+      { obsId: 'OBS1', locId: 'L1' },
+      { obsId: 'OBS2', locId: 'L1' },
+      { obsId: 'OBS3', locId: 'L2' },
+    ])
+  })
+
+  it('returns an empty list unchanged', () => {
+    expect(dedupeByObsId([])).toEqual([])
+  })
+})
@@ -0,0 +1,15 @@
+/**
+ * Drop repeated observations, keeping the first report of each obsId
+ * The same observation can come back from several locations or overlapping queries,
+ * and counts or groupings would otherwise include it more than once
+ * @param sightings - Sightings in their original order
+ * @returns Sightings with unique obsIds, in the same order
+ */
+export function dedupeByObsId<T extends { obsId: string }>(sightings: T[]): T[] {
+  const seenObsIds = new Set<string>()
+  return sightings.filter(sighting => {
+    if (seenObsIds.has(sighting.obsId)) return false
+    seenObsIds.add(sighting.obsId)
+    return true
+  })
+}
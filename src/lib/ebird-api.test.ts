@@ -0,0 +1,239 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import EBirdApiClient, { getOfflineCachedAt } from '@/lib/ebird-api'
+import { EBIRD_API_KEY_HEADER, createDirectTransport, createProxyTransport } from '@/lib/ebird-transport'
+import {
+  EBirdAuthError,
+  EBirdRateLimitError,
+  EBirdTimeoutError,
+  EBirdUpstreamError,
+} from '@/lib/ebird-errors'
+
+const APP_ORIGIN = 'https://rare-alerts.test'
+
+/**
+ * JSON response as the proxy or eBird would send it
+ */
+function jsonResponse(body: unknown, init: ResponseInit = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status: 200,
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init.headers },
+  })
+}
+
+/**
+ * fetch mock answering each call with the next response in the list
+ */
+function fakeFetch(...responses: (Response | Error)[]) {
+  return vi.fn(async (_input: RequestInfo | URL, _init?: RequestInit) => {
+    const next = responses.shift()
+    if (!next) throw new Error('Unexpected request')
+    if (next instanceof Error) throw next
+    return next
+  })
+}
+
+/**
+ * URL and init of the nth fetch call
+ */
+function callOf(fetch: ReturnType<typeof fakeFetch>, index = 0) {
+  const [input, init] = fetch.mock.calls[index]
+  return { url: new URL(String(input)), init: init ?? {} }
+}
+
+// Retries without waiting, so the suite stays fast
+const NO_DELAY = { baseDelayMs: 0, maxDelayMs: 0 }
+
+describe('EBirdApiClient', () => {
+  beforeEach(() => {
+    // The client logs every failed request
+    vi.spyOn(console, 'error').mockImplementation(() => undefined)
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  describe('proxy transport', () => {
+    it('sends the endpoint and parameters to the proxy route without a key', async () => {
+      const fetch = fakeFetch(jsonResponse([]))
+      const client = new EBirdApiClient({ transport: createProxyTransport({ baseUrl: APP_ORIGIN }), fetch })
+
+      await client.getNotableObservations('US-NY', { back: 7, maxResults: 50 })
+
+      const { url, init } = callOf(fetch)
+      expect(url.origin + url.pathname).toBe(`${APP_ORIGIN}/api/ebird`)
+      expect(url.searchParams.get('endpoint')).toBe('/data/obs/US-NY/recent/notable')
+      expect(url.searchParams.get('back')).toBe('7')
+      expect(url.searchParams.get('maxResults')).toBe('50')
+      expect(init.credentials).toBe('same-origin')
+      expect(init.headers).not.toHaveProperty(EBIRD_API_KEY_HEADER)
+    })
+
+    it('passes an explicit key in the header, never the query string', async () => {
+      const fetch = fakeFetch(jsonResponse([]))
+      const client = new EBirdApiClient({
+        apiKey: 'test-key',
+        transport: createProxyTransport({ baseUrl: APP_ORIGIN }),
+        fetch,
+      })
+
+      await client.getNotableObservations('US')
+
+      const { url, init } = callOf(fetch)
+      expect(init.headers).toHaveProperty(EBIRD_API_KEY_HEADER, 'test-key')
+      expect(url.search).not.toContain('test-key')
+    })
+
+    it('reports when a response was served from the offline cache', async () => {
+      const cachedAt = '2024-05-01T12:00:00.000Z'
+      const fetch = fakeFetch(jsonResponse([]), jsonResponse([], { headers: { 'X-SW-Cached-At': cachedAt } }))
+      const client = new EBirdApiClient({ transport: createProxyTransport({ baseUrl: APP_ORIGIN }), fetch })
+
+      const live = await client.getNotableObservations('US')
+      const cached = await client.getNotableObservations('US')
+
+      expect(getOfflineCachedAt(live)).toBeNull()
+      expect(getOfflineCachedAt(cached)).toEqual(new Date(cachedAt))
+    })
+  })
+
+  describe('direct transport', () => {
+    it('calls eBird with the key in the header', async () => {
+      const fetch = fakeFetch(jsonResponse([]))
+      const client = new EBirdApiClient({ apiKey: 'test-key', transport: createDirectTransport(), fetch })
+
+      await client.getNearbyNotableObservations(42.45, -76.5, { dist: 10 })
+
+      const { url, init } = callOf(fetch)
+      expect(url.origin + url.pathname).toBe('https://api.ebird.org/v2/data/obs/geo/recent/notable')
+      expect(url.searchParams.get('lat')).toBe('42.45')
+      expect(url.searchParams.get('dist')).toBe('10')
+      expect(init.headers).toHaveProperty(EBIRD_API_KEY_HEADER, 'test-key')
+    })
+
+    it('requires a key without making a request', async () => {
+      const fetch = fakeFetch()
+      const client = new EBirdApiClient({ transport: createDirectTransport(), fetch })
+
+      await expect(client.getNotableObservations('US')).rejects.toBeInstanceOf(EBirdAuthError)
+      expect(fetch).not.toHaveBeenCalled()
+    })
+
+    it('rejects path segments outside the endpoint allowlist without making a request', async () => {
+      const fetch = fakeFetch()
+      const client = new EBirdApiClient({ apiKey: 'test-key', transport: createDirectTransport(), fetch })
+
+      const error = await client.getNotableObservations('../../ref/taxonomy').catch(err => err)
+
+      expect(error).toBeInstanceOf(EBirdUpstreamError)
+      expect(error.status).toBe(400)
+      expect(fetch).not.toHaveBeenCalled()
+    })
+
+    it('rejects invalid query parameters without making a request', async () => {
+      const fetch = fakeFetch()
+      const client = new EBirdApiClient({ apiKey: 'test-key', transport: createDirectTransport(), fetch })
+
+      await expect(client.getNotableObservations('US', { back: 90 })).rejects.toMatchObject({ status: 400 })
+      expect(fetch).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('error mapping', () => {
+    const client = (fetch: ReturnType<typeof fakeFetch>) => new EBirdApiClient({
+      transport: createProxyTransport({ baseUrl: APP_ORIGIN }),
+      fetch,
+      retry: { retries: 0 },
+    })
+
+    it('maps 401 and 403 to EBirdAuthError', async () => {
+      await expect(client(fakeFetch(jsonResponse({ error: 'bad key' }, { status: 401 }))).getNotableObservations('US'))
+        .rejects.toBeInstanceOf(EBirdAuthError)
+      await expect(client(fakeFetch(jsonResponse({ error: 'forbidden' }, { status: 403 }))).getNotableObservations('US'))
+        .rejects.toMatchObject({ code: 'auth', status: 403 })
+    })
+
+    it('maps 429 to EBirdRateLimitError with the Retry-After delay', async () => {
+      const fetch = fakeFetch(jsonResponse({ error: 'slow down' }, { status: 429, headers: { 'Retry-After': '30' } }))
+
+      const error = await client(fetch).getNotableObservations('US').catch(err => err)
+
+      expect(error).toBeInstanceOf(EBirdRateLimitError)
+      expect(error.retryAfterSeconds).toBe(30)
+    })
+
+    it('rebuilds timeouts reported by the proxy', async () => {
+      const fetch = fakeFetch(jsonResponse({ error: 'timed out', code: 'timeout' }, { status: 504 }))
+
+      await expect(client(fetch).getNotableObservations('US')).rejects.toBeInstanceOf(EBirdTimeoutError)
+    })
+
+    it('maps other failures to EBirdUpstreamError with the status', async () => {
+      const fetch = fakeFetch(new Response('Service Unavailable', { status: 503 }))
+
+      await expect(client(fetch).getNotableObservations('US')).rejects.toMatchObject({ code: 'upstream', status: 503 })
+    })
+
+    it('maps network failures to EBirdUpstreamError without a status', async () => {
+      const fetch = fakeFetch(new TypeError('Failed to fetch'))
+
+      const error = await client(fetch).getNotableObservations('US').catch(err => err)
+
+      expect(error).toBeInstanceOf(EBirdUpstreamError)
+      expect(error.status).toBe(0)
+    })
+  })
+
+  describe('retries', () => {
+    const client = (fetch: ReturnType<typeof fakeFetch>, retries: number) => new EBirdApiClient({
+      transport: createProxyTransport({ baseUrl: APP_ORIGIN }),
+      fetch,
+      retry: { retries, ...NO_DELAY },
+    })
+
+    it('retries 5xx responses until one succeeds', async () => {
+      const sightings = [{ obsId: 'OBS1' }]
+      const fetch = fakeFetch(new Response('', { status: 502 }), new Response('', { status: 503 }), jsonResponse(sightings))
+
+      await expect(client(fetch, 2).getNotableObservations('US')).resolves.toEqual(sightings)
+      expect(fetch).toHaveBeenCalledTimes(3)
+    })
+
+    it('retries 429 responses', async () => {
+      const fetch = fakeFetch(new Response('', { status: 429, headers: { 'Retry-After': '0' } }), jsonResponse([]))
+
+      await expect(client(fetch, 1).getNotableObservations('US')).resolves.toEqual([])
+      expect(fetch).toHaveBeenCalledTimes(2)
+    })
+
+    it('gives up after the configured number of retries', async () => {
+      const fetch = fakeFetch(...Array.from({ length: 3 }, () => new Response('', { status: 500 })))
+
+      await expect(client(fetch, 2).getNotableObservations('US')).rejects.toMatchObject({ status: 500 })
+      expect(fetch).toHaveBeenCalledTimes(3)
+    })
+
+    it('does not retry client errors', async () => {
+      const fetch = fakeFetch(jsonResponse({ error: 'bad key' }, { status: 401 }), jsonResponse([]))
+
+      await expect(client(fetch, 2).getNotableObservations('US')).rejects.toBeInstanceOf(EBirdAuthError)
+      expect(fetch).toHaveBeenCalledTimes(1)
+    })
+
+    it('retries attempts that time out, then reports the timeout', async () => {
+      // Never answers, only rejects once the attempt is aborted
+      const fetch = vi.fn((_input: RequestInfo | URL, init?: RequestInit) => new Promise<Response>((_, reject) => {
+        init?.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')))
+      }))
+      const timingOut = new EBirdApiClient({
+        transport: createProxyTransport({ baseUrl: APP_ORIGIN }),
+        fetch,
+        retry: { retries: 1, timeoutMs: 10, ...NO_DELAY },
+      })
+
+      await expect(timingOut.getNotableObservations('US')).rejects.toBeInstanceOf(EBirdTimeoutError)
+      expect(fetch).toHaveBeenCalledTimes(2)
+    })
+  })
+})
@@ -1,94 +1,190 @@
-import { EBirdSighting, FilterOptions } from '@/types/ebird'
+import {
+  ApiKeySession,
+  EBirdChecklist,
+  EBirdChecklistSummary,
+  EBirdHotspot,
+  EBirdLocation,
+  EBirdObservation,
+  EBirdRegion,
+  EBirdRegionInfo,
+  EBirdRegionType,
+  EBirdSighting,
+  EBirdTaxon,
+  FilterOptions,
+  HistoricObservationOptions,
+  HotspotOptions,
+  NearbyNotableOptions,
+  RecentObservationOptions,
+  RegionInfoOptions,
+  SpeciesObservationOptions,
+  TaxonomyOptions,
+} from '@/types/ebird'
+import { EBirdApiError, EBirdAuthError, EBirdUpstreamError, errorFromResponse } from '@/lib/ebird-errors'
+import { RetryOptions, fetchWithRetry } from '@/lib/fetch-with-retry'
+import { EBirdTransport, createDefaultTransport } from '@/lib/ebird-transport'
 
-const EBIRD_API_BASE = 'https://api.ebird.org/v2'
+// The proxy already retries upstream failures, so the client only retries once by default
+const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  retries: 1,
+  timeoutMs: 45_000,
+}
+
+type QueryParams = Record<string, string | number | boolean | undefined>
+
+// Set by the service worker (public/sw.js) on responses it serves from its offline cache
+const CACHED_AT_HEADER = 'X-SW-Cached-At'
+
+// Response data that came from the offline cache, with the time it was stored
+const offlineCachedAt = new WeakMap<object, Date>()
+
+/**
+ * Time a response was cached when it was served offline by the service worker
+ * @param data - Data returned by an EBirdApiClient method
+ * @returns The time the cached copy was stored, or null for a live response
+ */
+export function getOfflineCachedAt(data: unknown): Date | null {
+  return data !== null && typeof data === 'object' ? offlineCachedAt.get(data) ?? null : null
+}
 
-interface EBirdApiConfig {
+/**
+ * Join a list parameter into the comma-separated form eBird expects
+ */
+function listParam(values?: string[]): string | undefined {
+  return values && values.length > 0 ? values.join(',') : undefined
+}
+
+/**
+ * Configuration for EBirdApiClient
+ * `baseUrl` is passed to the default transport: the app origin for the proxy, or the eBird API base when direct
+ */
+export interface EBirdApiConfig {
   apiKey?: string
   baseUrl?: string
+  transport?: EBirdTransport
+  fetch?: typeof fetch
+  retry?: RetryOptions
 }
 
 /**
  * eBird API client for fetching bird sighting data
- * Handles authentication, request proxying, and error handling
+ * Handles authentication, request delivery through a pluggable transport, and error handling
+ * In the browser it goes through the /api/ebird proxy; on the server it calls eBird directly
  */
 class EBirdApiClient {
   private apiKey?: string
-  private baseUrl: string
+  private transport: EBirdTransport
+  private fetchImpl?: typeof fetch
+  private retry: RetryOptions
 
   constructor(config: EBirdApiConfig = {}) {
     this.apiKey = config.apiKey
-    this.baseUrl = config.baseUrl || EBIRD_API_BASE
+    this.transport = config.transport ?? createDefaultTransport(config.baseUrl)
+    this.fetchImpl = config.fetch
+    this.retry = { ...DEFAULT_RETRY_OPTIONS, ...config.retry }
   }
 
   /**
-   * Set the API key for authentication
+   * Set an API key to send in the request header
+   * Browser code should prefer registerApiKey so the key never leaves the session cookie
    */
   setApiKey(apiKey: string) {
     this.apiKey = apiKey
   }
 
   /**
-   * Make a request to the eBird API through our proxy
+   * Make a request to the eBird API through the configured transport
+   * Failures are thrown as EBirdAuthError, EBirdRateLimitError, EBirdUpstreamError or EBirdTimeoutError
    * @param endpoint - API endpoint path
    * @param params - Query parameters
    * @returns Promise with the API response data
    */
-  private async makeRequest<T>(endpoint: string, params?: Record<string, string | number>): Promise<T> {
-    if (!this.apiKey) {
-      throw new Error('API key is required. Please add your eBird API key in the header.')
-    }
-
-    // Use the Next.js API route as a proxy to avoid CORS issues
-    // Construct the proxy URL - use relative URL which works in all contexts
-    const proxyUrl = new URL('/api/ebird', window.location.origin)
-    proxyUrl.searchParams.append('endpoint', endpoint)
-    proxyUrl.searchParams.append('apiKey', this.apiKey)
-    
+  private async makeRequest<T>(endpoint: string, params?: QueryParams): Promise<T> {
+    const query: Record<string, string> = {}
     if (params) {
       Object.entries(params).forEach(([key, value]) => {
         if (value !== undefined && value !== null) {
-          proxyUrl.searchParams.append(key, String(value))
+          query[key] = String(value)
         }
       })
     }
 
-    console.log('Making API request to proxy:', proxyUrl.toString())
-    console.log('API Key being used:', this.apiKey ? `${this.apiKey.substring(0, 8)}...` : 'not set')
-
     try {
-      const response = await fetch(proxyUrl.toString(), {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-      })
-
-      console.log('Response status:', response.status)
-      console.log('Response headers:', Object.fromEntries(response.headers.entries()))
+      const { url, init } = this.transport.buildRequest({ endpoint, params: query, apiKey: this.apiKey })
+      const response = await fetchWithRetry(url, init, { ...this.retry, fetch: this.fetchImpl })
 
       if (!response.ok) {
-        const errorText = await response.text()
-        console.error('API Error Response:', response.status, errorText)
-        
-        if (response.status === 401) {
-          throw new Error(`Invalid API key. Please check your eBird API key. Status: ${response.status}`)
-        } else if (response.status === 429) {
-          throw new Error('Rate limit exceeded. Please try again later.')
-        } else if (response.status === 403) {
-          throw new Error('Access forbidden. Please check your API key permissions.')
-        } else {
-          throw new Error(`eBird API error: ${response.status} ${response.statusText}. Details: ${errorText}`)
-        }
+        throw await errorFromResponse(response)
       }
 
       const data = await response.json()
-      console.log('API Response data length:', Array.isArray(data) ? data.length : 'not an array')
-      console.log('API Response data sample:', Array.isArray(data) && data.length > 0 ? data[0] : data)
+      const cachedAt = response.headers.get(CACHED_AT_HEADER)
+      if (cachedAt && data !== null && typeof data === 'object') {
+        offlineCachedAt.set(data, new Date(cachedAt))
+      }
       return data
     } catch (error) {
       console.error('Fetch error:', error)
-      throw error
+      if (error instanceof EBirdApiError) throw error
+      // Network failures (offline, DNS, CORS) surface as upstream errors without a status
+      throw new EBirdUpstreamError(0, error instanceof Error ? error.message : 'Network request failed')
+    }
+  }
+
+  /**
+   * Make a request to the API key session route (browser only)
+   * @param method - HTTP method (GET for status, POST to register, DELETE to forget)
+   * @param body - Optional JSON body
+   * @returns Promise with the session reference, or null when no key is available
+   */
+  private async makeSessionRequest(method: 'GET' | 'POST' | 'DELETE', body?: unknown): Promise<ApiKeySession | null> {
+    const sessionUrl = new URL('/api/ebird/session', window.location.origin)
+    const response = await (this.fetchImpl ?? fetch)(sessionUrl.toString(), {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      credentials: 'same-origin',
+      body: body === undefined ? undefined : JSON.stringify(body),
+    })
+
+    const data = await response.json().catch(() => ({}))
+    if (response.status === 401) {
+      throw new EBirdAuthError(data.error)
+    }
+    if (!response.ok) {
+      throw new Error(data.error || `Session request failed: ${response.status} ${response.statusText}`)
     }
+    return data.session ?? null
+  }
+
+  /**
+   * Register an API key with the server, which keeps it behind an httpOnly session cookie
+   * @param apiKey - eBird API key entered by the user
+   * @param remember - Keep the session on this device for longer
+   * @returns Promise with a session reference that does not contain the key
+   */
+  async registerApiKey(apiKey: string, remember = false): Promise<ApiKeySession> {
+    const session = await this.makeSessionRequest('POST', { apiKey, remember })
+    if (!session) {
+      throw new Error('Failed to register API key')
+    }
+    return session
+  }
+
+  /**
+   * Get the key the proxy will use for this browser, if any
+   * @returns Promise with the session reference, or null when no key is available
+   */
+  async getSession(): Promise<ApiKeySession | null> {
+    return this.makeSessionRequest('GET')
+  }
+
+  /**
+   * Forget the registered API key and clear the session cookie
+   * @returns Promise with the fallback session reference (server key), or null
+   */
+  async clearSession(): Promise<ApiKeySession | null> {
+    return this.makeSessionRequest('DELETE')
   }
 
   /**
@@ -101,7 +197,7 @@ class EBirdApiClient {
     regionCode: string,
     options: Partial<FilterOptions> = {}
   ): Promise<EBirdSighting[]> {
-    const params: Record<string, string | number> = {
+    const params: QueryParams = {
       back: options.back || 14,
       detail: options.detail || 'full',
       hotspot: String(options.hotspot || false),
@@ -119,18 +215,172 @@ class EBirdApiClient {
     return this.makeRequest<EBirdSighting[]>(`/data/obs/${regionCode}/recent/notable`, params)
   }
 
+  /**
+   * Get recent observations in a region
+   * @param regionCode - eBird region code (e.g., 'US', 'US-NY', 'L123456')
+   * @param options - Query options
+   * @returns Promise with array of observations
+   */
+  async getRecentObservations(
+    regionCode: string,
+    options: RecentObservationOptions = {}
+  ): Promise<EBirdObservation[]> {
+    return this.makeRequest<EBirdObservation[]>(`/data/obs/${regionCode}/recent`, {
+      ...options,
+      cat: listParam(options.cat),
+      r: listParam(options.r),
+    })
+  }
+
+  /**
+   * Get recent observations of a species in a region
+   * @param regionCode - eBird region code
+   * @param speciesCode - eBird species code (e.g., 'libher')
+   * @param options - Query options
+   * @returns Promise with array of observations
+   */
+  async getRecentSpeciesObservations(
+    regionCode: string,
+    speciesCode: string,
+    options: SpeciesObservationOptions = {}
+  ): Promise<EBirdObservation[]> {
+    return this.makeRequest<EBirdObservation[]>(`/data/obs/${regionCode}/recent/${speciesCode}`, {
+      ...options,
+      r: listParam(options.r),
+    })
+  }
+
+  /**
+   * Get recent notable observations near a point
+   * @param lat - Latitude
+   * @param lng - Longitude
+   * @param options - Query options; dist is in kilometres (0-50)
+   * @returns Promise with array of bird sightings
+   */
+  async getNearbyNotableObservations(
+    lat: number,
+    lng: number,
+    options: NearbyNotableOptions = {}
+  ): Promise<EBirdSighting[]> {
+    return this.makeRequest<EBirdSighting[]>('/data/obs/geo/recent/notable', {
+      lat,
+      lng,
+      detail: 'full',
+      ...options,
+    })
+  }
+
+  /**
+   * Get observations submitted for a region on a date
+   * @param regionCode - eBird region code
+   * @param date - Observation date (local calendar date is used)
+   * @param options - Query options
+   * @returns Promise with array of observations
+   */
+  async getHistoricObservations(
+    regionCode: string,
+    date: Date,
+    options: HistoricObservationOptions = {}
+  ): Promise<EBirdObservation[]> {
+    const path = `/data/obs/${regionCode}/historic/${date.getFullYear()}/${date.getMonth() + 1}/${date.getDate()}`
+    return this.makeRequest<EBirdObservation[]>(path, {
+      ...options,
+      cat: listParam(options.cat),
+      r: listParam(options.r),
+    })
+  }
+
+  /**
+   * Get a checklist with all of its observations
+   * @param subId - Checklist submission id (e.g., 'S38783126')
+   * @returns Promise with the checklist
+   */
+  async getChecklist(subId: string): Promise<EBirdChecklist> {
+    return this.makeRequest<EBirdChecklist>(`/product/checklist/view/${subId}`)
+  }
+
+  /**
+   * Get the most recently submitted checklists in a region
+   * @param regionCode - eBird region code
+   * @param maxResults - Number of checklists to fetch (1-200)
+   * @returns Promise with array of checklist summaries
+   */
+  async getRecentChecklists(regionCode: string, maxResults?: number): Promise<EBirdChecklistSummary[]> {
+    return this.makeRequest<EBirdChecklistSummary[]>(`/product/lists/${regionCode}`, { maxResults })
+  }
+
+  /**
+   * Get hotspots in a region
+   * @param regionCode - eBird region code
+   * @param options - back limits results to hotspots visited in the last N days
+   * @returns Promise with array of hotspots
+   */
+  async getRegionHotspots(regionCode: string, options: Pick<HotspotOptions, 'back'> = {}): Promise<EBirdHotspot[]> {
+    return this.makeRequest<EBirdHotspot[]>(`/ref/hotspot/${regionCode}`, { ...options, fmt: 'json' })
+  }
+
+  /**
+   * Get hotspots near a point
+   * @param lat - Latitude
+   * @param lng - Longitude
+   * @param options - dist is in kilometres (0-500); back limits to recently visited hotspots
+   * @returns Promise with array of hotspots
+   */
+  async getNearbyHotspots(lat: number, lng: number, options: HotspotOptions = {}): Promise<EBirdHotspot[]> {
+    return this.makeRequest<EBirdHotspot[]>('/ref/hotspot/geo', { lat, lng, ...options, fmt: 'json' })
+  }
+
+  /**
+   * Get details for a hotspot
+   * @param locId - Location code (e.g., 'L295658')
+   * @returns Promise with the hotspot location
+   */
+  async getHotspotInfo(locId: string): Promise<EBirdLocation> {
+    return this.makeRequest<EBirdLocation>(`/ref/hotspot/info/${locId}`)
+  }
+
+  /**
+   * Get the eBird taxonomy, optionally limited to categories or species
+   * @param options - Query options
+   * @returns Promise with array of taxa
+   */
+  async getTaxonomy(options: TaxonomyOptions = {}): Promise<EBirdTaxon[]> {
+    return this.makeRequest<EBirdTaxon[]>('/ref/taxonomy/ebird', {
+      ...options,
+      cat: listParam(options.cat),
+      species: listParam(options.species),
+      fmt: 'json',
+    })
+  }
+
+  /**
+   * Get the sub-regions of a region
+   * @param regionType - Type of region to list
+   * @param parentRegionCode - Parent region code, or 'world' for countries
+   * @returns Promise with array of regions
+   */
+  async getSubRegions(regionType: EBirdRegionType, parentRegionCode: string): Promise<EBirdRegion[]> {
+    return this.makeRequest<EBirdRegion[]>(`/ref/region/list/${regionType}/${parentRegionCode}`, { fmt: 'json' })
+  }
+
+  /**
+   * Get the name and bounds of a region
+   * @param regionCode - eBird region code
+   * @param options - Query options
+   * @returns Promise with region info
+   */
+  async getRegionInfo(regionCode: string, options: RegionInfoOptions = {}): Promise<EBirdRegionInfo> {
+    return this.makeRequest<EBirdRegionInfo>(`/ref/region/info/${regionCode}`, { ...options })
+  }
+
   /**
    * Validate API key by making a simple request
    * @returns Promise with boolean indicating if API key is valid
    */
   async validateApiKey(): Promise<boolean> {
     try {
-      console.log('Validating API key...')
-      console.log('Current API key:', this.apiKey ? `${this.apiKey.substring(0, 8)}...` : 'not set')
-      
       // Try the notable observations endpoint as it's more reliable for validation
-      const result = await this.makeRequest<any[]>('/data/obs/US/recent/notable?back=1&maxResults=1')
-      console.log('API key validation successful:', result)
+      await this.makeRequest<EBirdSighting[]>('/data/obs/US/recent/notable', { back: 1, maxResults: 1 })
       return true
     } catch (error) {
       console.error('API key validation failed:', error)
@@ -143,11 +393,12 @@ class EBirdApiClient {
 let ebirdApiInstance: EBirdApiClient | null = null
 
 /**
- * Get the eBird API client instance (client-side only)
+ * Get the shared browser eBird API client instance
+ * Server code should create its own client, e.g. with createServerEbirdApi from '@/lib/server/ebird-client'
  */
 export function getEbirdApi(): EBirdApiClient {
   if (typeof window === 'undefined') {
-    throw new Error('eBird API client can only be used on the client side')
+    throw new Error('The shared eBird API client is browser-only. Create an EBirdApiClient with a direct transport on the server.')
   }
   
   if (!ebirdApiInstance) {
@@ -166,10 +417,46 @@ export const ebirdApi = {
     if (typeof window === 'undefined') throw new Error('API can only be used on client side')
     return getEbirdApi().getNotableObservations(regionCode, options)
   },
+  getNearbyNotableObservations: async (lat: number, lng: number, options?: NearbyNotableOptions) => {
+    if (typeof window === 'undefined') throw new Error('API can only be used on client side')
+    return getEbirdApi().getNearbyNotableObservations(lat, lng, options)
+  },
+  getRegionHotspots: async (regionCode: string, options?: Pick<HotspotOptions, 'back'>) => {
+    if (typeof window === 'undefined') throw new Error('API can only be used on client side')
+    return getEbirdApi().getRegionHotspots(regionCode, options)
+  },
+  getNearbyHotspots: async (lat: number, lng: number, options?: HotspotOptions) => {
+    if (typeof window === 'undefined') throw new Error('API can only be used on client side')
+    return getEbirdApi().getNearbyHotspots(lat, lng, options)
+  },
+  getHotspotInfo: async (locId: string) => {
+    if (typeof window === 'undefined') throw new Error('API can only be used on client side')
+    return getEbirdApi().getHotspotInfo(locId)
+  },
+  getSubRegions: async (regionType: EBirdRegionType, parentRegionCode: string) => {
+    if (typeof window === 'undefined') throw new Error('API can only be used on client side')
+    return getEbirdApi().getSubRegions(regionType, parentRegionCode)
+  },
+  getRegionInfo: async (regionCode: string, options?: RegionInfoOptions) => {
+    if (typeof window === 'undefined') throw new Error('API can only be used on client side')
+    return getEbirdApi().getRegionInfo(regionCode, options)
+  },
   validateApiKey: async () => {
     if (typeof window === 'undefined') return false
     return getEbirdApi().validateApiKey()
   },
+  registerApiKey: async (apiKey: string, remember?: boolean) => {
+    if (typeof window === 'undefined') throw new Error('API can only be used on client side')
+    return getEbirdApi().registerApiKey(apiKey, remember)
+  },
+  getSession: async () => {
+    if (typeof window === 'undefined') return null
+    return getEbirdApi().getSession()
+  },
+  clearSession: async () => {
+    if (typeof window === 'undefined') return null
+    return getEbirdApi().clearSession()
+  },
 }
 
 export default EBirdApiClient 
\ No newline at end of file
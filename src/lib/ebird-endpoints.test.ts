@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest'
+import { validateEndpointRequest } from '@/lib/ebird-endpoints'
+
+describe('validateEndpointRequest', () => {
+  it('matches an allowed endpoint and normalizes its query', () => {
+    const result = validateEndpointRequest('/data/obs/US-NY/recent/notable', { back: '07', r: ' L123 , L456 ' })
+
+    expect(result).toEqual({
+      success: true,
+      id: 'notableObservations',
+      path: '/data/obs/US-NY/recent/notable',
+      query: { back: '7', r: 'L123,L456' },
+    })
+  })
+
+  it('prefers literal segments over placeholders', () => {
+    const result = validateEndpointRequest('/data/obs/geo/recent/notable', { lat: '42.45', lng: '-76.5' })
+
+    expect(result).toMatchObject({ success: true, id: 'nearbyNotableObservations' })
+  })
+
+  it('fills in default parameters', () => {
+    expect(validateEndpointRequest('/ref/hotspot/US-NY', {})).toMatchObject({ success: true, query: { fmt: 'json' } })
+  })
+
+  it('rejects endpoints outside the allowlist', () => {
+    for (const endpoint of ['/data/obs/US/recent/notable/extra', '/product/stats/US/2024/05/01', '/ref/taxonomy/../../admin']) {
+      expect(validateEndpointRequest(endpoint, {})).toEqual({
+        success: false,
+        error: 'Unsupported endpoint',
+        issues: [{ field: 'endpoint', message: `${endpoint} is not an allowed eBird endpoint` }],
+      })
+    }
+  })
+
+  it('reports every invalid path segment and query parameter', () => {
+    const result = validateEndpointRequest('/data/obs/not a region/recent/notable', {
+      back: '90',
+      maxResults: 'lots',
+      apiKey: 'secret',
+    })
+
+    expect(result.success).toBe(false)
+    if (result.success) return
+    expect(result.error).toBe('Invalid request parameters')
+    expect(result.issues.map(issue => issue.field).sort()).toEqual([
+      'path.regionCode',
+      'query.apiKey',
+      'query.back',
+      'query.maxResults',
+    ])
+    expect(result.issues.find(issue => issue.field === 'query.apiKey')?.message)
+      .toBe('Unsupported parameter for this endpoint')
+  })
+
+  it('rejects out-of-range coordinates and dates', () => {
+    expect(validateEndpointRequest('/data/obs/geo/recent/notable', { lat: '91', lng: '0' }).success).toBe(false)
+    expect(validateEndpointRequest('/data/obs/US/historic/2024/13/01', {}).success).toBe(false)
+  })
+
+  it('rejects more than ten locations', () => {
+    const r = Array.from({ length: 11 }, (_, i) => `L${i + 1}`).join(',')
+
+    const result = validateEndpointRequest('/data/obs/US-NY/recent', { r })
+
+    expect(result).toMatchObject({
+      success: false,
+      issues: [{ field: 'query.r', message: 'Up to 10 location codes are allowed' }],
+    })
+  })
+})
@@ -0,0 +1,318 @@
+import { z } from 'zod'
+
+/**
+ * Path segment schemas shared across endpoints
+ */
+export const regionCodeSchema = z
+  .string()
+  .regex(/^([A-Z]{2}(-[A-Z0-9]{1,3}){0,2}|L\d+)$/i, 'Must be a country (US), subnational1 (US-NY), subnational2 (US-NY-001) or location (L123456) code')
+
+const parentRegionCodeSchema = z
+  .string()
+  .regex(/^(world|[A-Z]{2}(-[A-Z0-9]{1,3})?)$/i, 'Must be world, a country (US) or subnational1 (US-NY) code')
+
+const locIdSchema = z.string().regex(/^L\d+$/, 'Must be a location code such as L123456')
+export const speciesCodeSchema = z.string().regex(/^[a-z0-9]{1,12}$/i, 'Must be an eBird species code such as libher')
+export const subIdSchema = z.string().regex(/^S\d+$/, 'Must be a checklist id such as S38783126')
+
+/**
+ * Query parameter schemas shared across endpoints
+ * Values arrive as strings and are coerced before being forwarded
+ */
+const booleanParam = z.enum(['true', 'false'])
+const backParam = z.coerce.number().int().min(1).max(30)
+const maxResultsParam = z.coerce.number().int().min(1).max(10000)
+const latParam = z.coerce.number().min(-90).max(90)
+const lngParam = z.coerce.number().min(-180).max(180)
+export const sppLocaleParam = z.string().regex(/^[A-Za-z]{2,3}([_-][A-Za-z]{2,4})?$/, 'Must be a locale such as en or pt_BR')
+const jsonFormatParam = z.literal('json').default('json')
+
+export const locationListParam = z
+  .string()
+  .transform(value => value.split(',').map(code => code.trim()).filter(Boolean))
+  .pipe(z.array(regionCodeSchema).min(1).max(10, 'Up to 10 location codes are allowed'))
+  .transform(codes => codes.join(','))
+
+const taxonomyCategories = ['species', 'slash', 'issf', 'spuh', 'hybrid', 'domestic', 'form', 'intergrade'] as const
+const categoryListParam = z
+  .string()
+  .transform(value => value.split(',').map(cat => cat.trim()).filter(Boolean))
+  .pipe(z.array(z.enum(taxonomyCategories)).min(1))
+  .transform(cats => cats.join(','))
+
+const speciesListParam = z
+  .string()
+  .transform(value => value.split(',').map(code => code.trim()).filter(Boolean))
+  .pipe(z.array(speciesCodeSchema).min(1))
+  .transform(codes => codes.join(','))
+
+/**
+ * Definition of a supported eBird endpoint
+ * `path` uses `:name` placeholders that are validated by `params`
+ */
+interface EBirdEndpointDefinition {
+  path: string
+  params: z.AnyZodObject
+  query: z.AnyZodObject
+}
+
+/**
+ * Allowlist of eBird API 2.0 endpoints the proxy will forward
+ * Order matters: endpoints with literal segments come before ones with placeholders in the same position
+ */
+export const EBIRD_ENDPOINTS = {
+  nearbyNotableObservations: {
+    path: '/data/obs/geo/recent/notable',
+    params: z.object({}),
+    query: z.object({
+      lat: latParam,
+      lng: lngParam,
+      dist: z.coerce.number().min(0).max(50).optional(),
+      back: backParam.optional(),
+      detail: z.enum(['simple', 'full']).optional(),
+      hotspot: booleanParam.optional(),
+      maxResults: maxResultsParam.optional(),
+      sppLocale: sppLocaleParam.optional(),
+    }).strict(),
+  },
+  notableObservations: {
+    path: '/data/obs/:regionCode/recent/notable',
+    params: z.object({ regionCode: regionCodeSchema }),
+    query: z.object({
+      back: backParam.optional(),
+      detail: z.enum(['simple', 'full']).optional(),
+      hotspot: booleanParam.optional(),
+      maxResults: maxResultsParam.optional(),
+      r: locationListParam.optional(),
+      sppLocale: sppLocaleParam.optional(),
+    }).strict(),
+  },
+  recentObservations: {
+    path: '/data/obs/:regionCode/recent',
+    params: z.object({ regionCode: regionCodeSchema }),
+    query: z.object({
+      back: backParam.optional(),
+      cat: categoryListParam.optional(),
+      hotspot: booleanParam.optional(),
+      includeProvisional: booleanParam.optional(),
+      maxResults: maxResultsParam.optional(),
+      r: locationListParam.optional(),
+      sppLocale: sppLocaleParam.optional(),
+    }).strict(),
+  },
+  speciesObservations: {
+    path: '/data/obs/:regionCode/recent/:speciesCode',
+    params: z.object({ regionCode: regionCodeSchema, speciesCode: speciesCodeSchema }),
+    query: z.object({
+      back: backParam.optional(),
+      hotspot: booleanParam.optional(),
+      includeProvisional: booleanParam.optional(),
+      maxResults: maxResultsParam.optional(),
+      r: locationListParam.optional(),
+      sppLocale: sppLocaleParam.optional(),
+    }).strict(),
+  },
+  historicObservations: {
+    path: '/data/obs/:regionCode/historic/:y/:m/:d',
+    params: z.object({
+      regionCode: regionCodeSchema,
+      y: z.coerce.number().int().min(1800).max(2100),
+      m: z.coerce.number().int().min(1).max(12),
+      d: z.coerce.number().int().min(1).max(31),
+    }),
+    query: z.object({
+      cat: categoryListParam.optional(),
+      detail: z.enum(['simple', 'full']).optional(),
+      hotspot: booleanParam.optional(),
+      includeProvisional: booleanParam.optional(),
+      maxResults: maxResultsParam.optional(),
+      r: locationListParam.optional(),
+      rank: z.enum(['mrec', 'create']).optional(),
+      sppLocale: sppLocaleParam.optional(),
+    }).strict(),
+  },
+  checklistView: {
+    path: '/product/checklist/view/:subId',
+    params: z.object({ subId: subIdSchema }),
+    query: z.object({}).strict(),
+  },
+  recentChecklists: {
+    path: '/product/lists/:regionCode',
+    params: z.object({ regionCode: regionCodeSchema }),
+    query: z.object({
+      maxResults: z.coerce.number().int().min(1).max(200).optional(),
+    }).strict(),
+  },
+  nearbyHotspots: {
+    path: '/ref/hotspot/geo',
+    params: z.object({}),
+    query: z.object({
+      lat: latParam,
+      lng: lngParam,
+      dist: z.coerce.number().min(0).max(500).optional(),
+      back: backParam.optional(),
+      fmt: jsonFormatParam,
+    }).strict(),
+  },
+  hotspotInfo: {
+    path: '/ref/hotspot/info/:locId',
+    params: z.object({ locId: locIdSchema }),
+    query: z.object({}).strict(),
+  },
+  regionHotspots: {
+    path: '/ref/hotspot/:regionCode',
+    params: z.object({ regionCode: regionCodeSchema }),
+    query: z.object({
+      back: backParam.optional(),
+      fmt: jsonFormatParam,
+    }).strict(),
+  },
+  taxonomy: {
+    path: '/ref/taxonomy/ebird',
+    params: z.object({}),
+    query: z.object({
+      cat: categoryListParam.optional(),
+      fmt: jsonFormatParam,
+      locale: sppLocaleParam.optional(),
+      species: speciesListParam.optional(),
+      version: z.string().regex(/^\d{4}(\.\d+)?$/, 'Must be a taxonomy version such as 2023').optional(),
+    }).strict(),
+  },
+  regionInfo: {
+    path: '/ref/region/info/:regionCode',
+    params: z.object({ regionCode: regionCodeSchema }),
+    query: z.object({
+      regionNameFormat: z.enum(['detailed', 'detailednoqual', 'full', 'namequal', 'nameonly', 'revdetailed']).optional(),
+      delim: z.string().max(5).optional(),
+    }).strict(),
+  },
+  subRegionList: {
+    path: '/ref/region/list/:regionType/:parentRegionCode',
+    params: z.object({
+      regionType: z.enum(['country', 'subnational1', 'subnational2']),
+      parentRegionCode: parentRegionCodeSchema,
+    }),
+    query: z.object({
+      fmt: jsonFormatParam,
+    }).strict(),
+  },
+} satisfies Record<string, EBirdEndpointDefinition>
+
+export type EBirdEndpointId = keyof typeof EBIRD_ENDPOINTS
+
+/**
+ * A single invalid field in a proxy request
+ * `field` is prefixed with `endpoint`, `path.` or `query.` to show where the problem is
+ */
+export interface EndpointFieldIssue {
+  field: string
+  message: string
+}
+
+/**
+ * Result of validating a proxy request against the endpoint allowlist
+ */
+export type EndpointValidationResult =
+  | {
+      success: true
+      id: EBirdEndpointId
+      path: string
+      query: Record<string, string>
+    }
+  | {
+      success: false
+      error: string
+      issues: EndpointFieldIssue[]
+    }
+
+/**
+ * Convert zod issues into field issues, splitting unrecognized keys into one issue each
+ */
+export function toFieldIssues(prefix: string, error: z.ZodError): EndpointFieldIssue[] {
+  return error.issues.flatMap(issue => {
+    if (issue.code === 'unrecognized_keys') {
+      return issue.keys.map(key => ({ field: `${prefix}.${key}`, message: 'Unsupported parameter for this endpoint' }))
+    }
+    const field = issue.path.length > 0 ? `${prefix}.${issue.path.join('.')}` : prefix
+    return [{ field, message: issue.message }]
+  })
+}
+
+/**
+ * Match an endpoint path against a pattern, returning the placeholder values
+ * @returns Placeholder values, or null when the literal segments do not line up
+ */
+function matchPath(pattern: string, endpoint: string): Record<string, string> | null {
+  const patternSegments = pattern.split('/').filter(Boolean)
+  const endpointSegments = endpoint.split('/').filter(Boolean)
+  if (patternSegments.length !== endpointSegments.length) return null
+
+  const params: Record<string, string> = {}
+  for (let i = 0; i < patternSegments.length; i++) {
+    const patternSegment = patternSegments[i]
+    const endpointSegment = endpointSegments[i]
+    if (patternSegment.startsWith(':')) {
+      params[patternSegment.slice(1)] = endpointSegment
+    } else if (patternSegment !== endpointSegment) {
+      return null
+    }
+  }
+  return params
+}
+
+/**
+ * Build a concrete endpoint path by filling in the placeholders of a pattern
+ */
+function buildPath(pattern: string, params: Record<string, string | number>): string {
+  return pattern.replace(/:(\w+)/g, (_, name: string) => encodeURIComponent(String(params[name])))
+}
+
+/**
+ * Validate a proxy request against the endpoint allowlist
+ * Every invalid path segment and query parameter is reported, not just the first
+ * @param endpoint - eBird endpoint path, e.g. '/data/obs/US-NY/recent/notable'
+ * @param query - Query parameters to forward (excluding `endpoint`)
+ * @returns The matched endpoint with normalized path and query, or the list of issues
+ */
+export function validateEndpointRequest(
+  endpoint: string,
+  query: Record<string, string>
+): EndpointValidationResult {
+  for (const [id, definition] of Object.entries(EBIRD_ENDPOINTS) as [EBirdEndpointId, EBirdEndpointDefinition][]) {
+    const rawParams = matchPath(definition.path, endpoint)
+    if (!rawParams) continue
+
+    const params = definition.params.safeParse(rawParams)
+    const parsedQuery = definition.query.safeParse(query)
+    if (!params.success || !parsedQuery.success) {
+      return {
+        success: false,
+        error: 'Invalid request parameters',
+        issues: [
+          ...(params.success ? [] : toFieldIssues('path', params.error)),
+          ...(parsedQuery.success ? [] : toFieldIssues('query', parsedQuery.error)),
+        ],
+      }
+    }
+
+    const normalizedQuery: Record<string, string> = {}
+    Object.entries(parsedQuery.data).forEach(([key, value]) => {
+      if (value !== undefined) {
+        normalizedQuery[key] = String(value)
+      }
+    })
+
+    return {
+      success: true,
+      id,
+      path: buildPath(definition.path, params.data),
+      query: normalizedQuery,
+    }
+  }
+
+  return {
+    success: false,
+    error: 'Unsupported endpoint',
+    issues: [{ field: 'endpoint', message: `${endpoint} is not an allowed eBird endpoint` }],
+  }
+}
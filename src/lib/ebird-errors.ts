@@ -0,0 +1,132 @@
+/**
+ * Machine-readable error codes shared by the proxy responses and the client
+ */
+export type EBirdErrorCode = 'auth' | 'rate_limit' | 'upstream' | 'timeout'
+
+/**
+ * Base class for errors raised while talking to the eBird API
+ */
+export class EBirdApiError extends Error {
+  readonly code: EBirdErrorCode
+  readonly status?: number
+
+  constructor(code: EBirdErrorCode, message: string, status?: number) {
+    super(message)
+    this.name = new.target.name
+    this.code = code
+    this.status = status
+    // Keep instanceof working when compiled to ES5
+    Object.setPrototypeOf(this, new.target.prototype)
+  }
+}
+
+/**
+ * The API key is missing, invalid or lacks permission (401/403)
+ */
+export class EBirdAuthError extends EBirdApiError {
+  constructor(message = 'Invalid API key. Please check your eBird API key.', status = 401) {
+    super('auth', message, status)
+  }
+}
+
+/**
+ * Too many requests (429), either from eBird or from the proxy's own limiter
+ */
+export class EBirdRateLimitError extends EBirdApiError {
+  readonly retryAfterSeconds?: number
+
+  constructor(retryAfterSeconds?: number, message = 'Rate limit exceeded. Please try again later.') {
+    super('rate_limit', message, 429)
+    this.retryAfterSeconds = retryAfterSeconds
+  }
+}
+
+/**
+ * eBird responded with an unexpected status, typically a 5xx
+ */
+export class EBirdUpstreamError extends EBirdApiError {
+  readonly details?: string
+
+  constructor(status: number, message: string, details?: string) {
+    super('upstream', message, status)
+    this.details = details
+  }
+}
+
+/**
+ * The request did not complete within the configured timeout
+ */
+export class EBirdTimeoutError extends EBirdApiError {
+  constructor(timeoutMs?: number) {
+    super(
+      'timeout',
+      timeoutMs
+        ? `eBird did not respond within ${Math.round(timeoutMs / 1000)} seconds.`
+        : 'eBird did not respond in time.',
+      504
+    )
+  }
+}
+
+/**
+ * Parse a Retry-After header, which may be a number of seconds or an HTTP date
+ * @returns Seconds to wait, or undefined if the header is missing or malformed
+ */
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined
+
+  const seconds = Number(value)
+  if (Number.isFinite(seconds)) return Math.max(0, seconds)
+
+  const date = Date.parse(value)
+  if (Number.isNaN(date)) return undefined
+  return Math.max(0, Math.ceil((date - Date.now()) / 1000))
+}
+
+/**
+ * Build the typed error for a failed response
+ * @param status - HTTP status code
+ * @param statusText - HTTP status text
+ * @param details - Response body, if any
+ * @param retryAfterSeconds - Parsed Retry-After value for 429 responses
+ */
+export function errorFromStatus(
+  status: number,
+  statusText: string,
+  details?: string,
+  retryAfterSeconds?: number
+): EBirdApiError {
+  if (status === 401) {
+    return new EBirdAuthError(`Invalid API key. Please check your eBird API key. Status: ${status}`, status)
+  }
+  if (status === 403) {
+    return new EBirdAuthError('Access forbidden. Please check your API key permissions.', status)
+  }
+  if (status === 429) {
+    return new EBirdRateLimitError(retryAfterSeconds)
+  }
+  return new EBirdUpstreamError(status, `eBird API error: ${status} ${statusText}`, details)
+}
+
+/**
+ * Build the typed error for a failed proxy response
+ * Uses the `code` field of the proxy's JSON error body when present
+ */
+export async function errorFromResponse(response: Response): Promise<EBirdApiError> {
+  const details = await response.text()
+  let body: { code?: EBirdErrorCode, retryAfter?: number } = {}
+  try {
+    body = JSON.parse(details)
+  } catch {
+    // Non-JSON error bodies are kept as details only
+  }
+
+  const retryAfterSeconds = body.retryAfter ?? parseRetryAfter(response.headers.get('Retry-After'))
+  if (body.code === 'timeout') {
+    return new EBirdTimeoutError()
+  }
+  if (body.code === 'rate_limit') {
+    return new EBirdRateLimitError(retryAfterSeconds)
+  }
+  return errorFromStatus(response.status, response.statusText, details, retryAfterSeconds)
+}
@@ -0,0 +1,110 @@
+import { EBirdAuthError, EBirdUpstreamError } from '@/lib/ebird-errors'
+import { validateEndpointRequest } from '@/lib/ebird-endpoints'
+
+export const EBIRD_API_BASE = 'https://api.ebird.org/v2'
+
+/**
+ * Header used to pass a user-supplied API key, matching the one eBird itself expects
+ */
+export const EBIRD_API_KEY_HEADER = 'X-eBirdApiToken'
+
+/**
+ * A request for an eBird endpoint, independent of how it is delivered
+ */
+export interface EBirdRequest {
+  endpoint: string
+  params: Record<string, string>
+  apiKey?: string
+}
+
+/**
+ * Turns an eBird request into a concrete HTTP request
+ * The client handles fetching, retries and error mapping, so transports stay pure and easy to swap in tests
+ */
+export interface EBirdTransport {
+  buildRequest(request: EBirdRequest): { url: string, init: RequestInit }
+}
+
+/**
+ * Transport that goes through the app's /api/ebird proxy
+ * Used in the browser, where the key lives in the session cookie and eBird would block CORS
+ * @param options.baseUrl - Origin of the app; defaults to window.location.origin
+ * @param options.path - Path of the proxy route
+ */
+export function createProxyTransport(options: { baseUrl?: string, path?: string } = {}): EBirdTransport {
+  const path = options.path ?? '/api/ebird'
+
+  return {
+    buildRequest({ endpoint, params, apiKey }) {
+      const baseUrl = options.baseUrl ?? (typeof window !== 'undefined' ? window.location.origin : undefined)
+      if (!baseUrl) {
+        throw new Error('A baseUrl is required to use the proxy transport outside the browser')
+      }
+
+      const url = new URL(path, baseUrl)
+      url.searchParams.append('endpoint', endpoint)
+      Object.entries(params).forEach(([key, value]) => url.searchParams.append(key, value))
+
+      const headers: Record<string, string> = {
+        'Content-Type': 'application/json',
+      }
+      if (apiKey) {
+        headers[EBIRD_API_KEY_HEADER] = apiKey
+      }
+
+      return {
+        url: url.toString(),
+        init: { method: 'GET', headers, credentials: 'same-origin' },
+      }
+    },
+  }
+}
+
+/**
+ * Transport that calls eBird directly with header authentication
+ * Used on the server: route handlers, scripts and background jobs
+ * Requests are checked against the endpoint allowlist, as the proxy does, so path segments
+ * built from user input cannot reach other eBird URLs
+ * @param options.baseUrl - eBird API base URL; defaults to the public v2 API
+ */
+export function createDirectTransport(options: { baseUrl?: string } = {}): EBirdTransport {
+  const baseUrl = options.baseUrl ?? EBIRD_API_BASE
+
+  return {
+    buildRequest({ endpoint, params, apiKey }) {
+      if (!apiKey) {
+        throw new EBirdAuthError('API key is required to call eBird directly.')
+      }
+
+      // Rejected the way the proxy rejects them, with a 400 listing every invalid field
+      const validation = validateEndpointRequest(endpoint, params)
+      if (!validation.success) {
+        throw new EBirdUpstreamError(400, validation.error, JSON.stringify({ issues: validation.issues }))
+      }
+
+      const url = new URL(`${baseUrl}${validation.path}`)
+      Object.entries(validation.query).forEach(([key, value]) => url.searchParams.append(key, value))
+
+      return {
+        url: url.toString(),
+        init: {
+          method: 'GET',
+          headers: {
+            [EBIRD_API_KEY_HEADER]: apiKey,
+            'User-Agent': 'eBird-Rare-Alerts/1.0',
+          },
+        },
+      }
+    },
+  }
+}
+
+/**
+ * Pick the transport for the current environment
+ * Browser code goes through the proxy; server code calls eBird directly
+ */
+export function createDefaultTransport(baseUrl?: string): EBirdTransport {
+  return typeof window === 'undefined'
+    ? createDirectTransport({ baseUrl })
+    : createProxyTransport({ baseUrl })
+}
@@ -0,0 +1,97 @@
+import { EBirdTimeoutError, parseRetryAfter } from '@/lib/ebird-errors'
+
+/**
+ * Options for fetchWithRetry
+ */
+export interface RetryOptions {
+  /** Number of retries after the first attempt */
+  retries?: number
+  /** Base delay for exponential backoff, in milliseconds */
+  baseDelayMs?: number
+  /** Upper bound for a single backoff delay, in milliseconds */
+  maxDelayMs?: number
+  /** Per-attempt timeout, in milliseconds */
+  timeoutMs?: number
+  /** fetch implementation to use */
+  fetch?: typeof fetch
+}
+
+const DEFAULT_RETRY_OPTIONS = {
+  retries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10_000,
+  timeoutMs: 15_000,
+}
+
+/**
+ * Whether a status code is worth retrying
+ */
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500
+}
+
+/**
+ * Exponential backoff with full jitter
+ */
+function backoffDelay(attempt: number, baseDelayMs: number, maxDelayMs: number): number {
+  const exponential = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt)
+  return Math.random() * exponential
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+/**
+ * fetch with a per-attempt timeout and automatic retries for 429 and 5xx responses
+ * Honours Retry-After when present, otherwise backs off exponentially with jitter
+ * @returns The first successful response, or the last failed one once retries are exhausted
+ * @throws EBirdTimeoutError when the final attempt times out
+ */
+export async function fetchWithRetry(
+  input: string,
+  init: RequestInit = {},
+  options: RetryOptions = {}
+): Promise<Response> {
+  const { retries, baseDelayMs, maxDelayMs, timeoutMs } = { ...DEFAULT_RETRY_OPTIONS, ...options }
+  const fetchImpl = options.fetch ?? fetch
+
+  for (let attempt = 0; ; attempt++) {
+    const controller = new AbortController()
+    const timeout = setTimeout(() => controller.abort(), timeoutMs)
+    // Respect a caller-supplied signal as well as our timeout
+    const abortAttempt = () => controller.abort()
+    init.signal?.addEventListener('abort', abortAttempt, { once: true })
+
+    let response: Response
+    try {
+      response = await fetchImpl(input, { ...init, signal: controller.signal })
+    } catch (error) {
+      const timedOut = controller.signal.aborted && !init.signal?.aborted
+      if (!timedOut) throw error
+      if (attempt >= retries) throw new EBirdTimeoutError(timeoutMs)
+      await sleep(backoffDelay(attempt, baseDelayMs, maxDelayMs))
+      continue
+    } finally {
+      clearTimeout(timeout)
+      // A long-lived caller signal would otherwise collect one listener per attempt
+      init.signal?.removeEventListener('abort', abortAttempt)
+    }
+
+    if (!isRetryableStatus(response.status) || attempt >= retries) {
+      return response
+    }
+
+    const retryAfterSeconds = parseRetryAfter(response.headers.get('Retry-After'))
+    // A Retry-After longer than our backoff ceiling is not worth waiting for inline
+    if (retryAfterSeconds !== undefined && retryAfterSeconds * 1000 > maxDelayMs) {
+      return response
+    }
+
+    // Drain the body so the connection can be reused
+    await response.body?.cancel().catch(() => undefined)
+    await sleep(
+      retryAfterSeconds !== undefined
+        ? retryAfterSeconds * 1000
+        : backoffDelay(attempt, baseDelayMs, maxDelayMs)
+    )
+  }
+}
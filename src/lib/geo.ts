@@ -0,0 +1,28 @@
+const EARTH_RADIUS_KM = 6371
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180
+
+/**
+ * Great-circle distance between two points using the haversine formula
+ * @returns Distance in kilometres
+ */
+export function haversineDistanceKm(
+  from: { lat: number, lng: number },
+  to: { lat: number, lng: number }
+): number {
+  const dLat = toRadians(to.lat - from.lat)
+  const dLng = toRadians(to.lng - from.lng)
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a))
+}
+
+/**
+ * Format a distance for display
+ * @returns e.g. "850 m" or "12.3 km"
+ */
+export function formatDistance(distanceKm: number): string {
+  if (distanceKm < 1) return `${Math.round(distanceKm * 1000)} m`
+  return `${distanceKm < 10 ? distanceKm.toFixed(1) : Math.round(distanceKm)} km`
+}
@@ -0,0 +1,115 @@
+import { EBirdRareAlert, RarityTier } from '@/types/ebird'
+import { RARITY_TIERS } from '@/lib/rare-alerts'
+import { dedupeByObsId } from '@/lib/dedupe'
+
+/**
+ * All reports of one species at one location
+ */
+export interface LocationSpeciesSummary {
+  speciesCode: string
+  comName: string
+  sciName: string
+  rarity: RarityTier
+  reportCount: number
+  latestObsDt: string
+  observers: string[]
+  maxHowMany?: number
+  latest: EBirdRareAlert
+  sightings: EBirdRareAlert[]
+}
+
+/**
+ * Notable sightings aggregated for a single location
+ */
+export interface LocationGroup {
+  locId: string
+  locName: string
+  lat: number
+  lng: number
+  rarity: RarityTier
+  reportCount: number
+  latestObsDt: string
+  distance?: number
+  species: LocationSpeciesSummary[]
+}
+
+/**
+ * Return the rarer of two tiers
+ */
+function rarerTier(a: RarityTier, b: RarityTier): RarityTier {
+  return RARITY_TIERS.indexOf(a) >= RARITY_TIERS.indexOf(b) ? a : b
+}
+
+/**
+ * Group sightings by location, then by species within each location
+ * eBird dates sort lexically ("2017-08-23 10:11"), so they are compared as strings
+ * @param alerts - Rare alerts to group
+ * @returns One group per locId, species sorted rarest first, then most recent
+ */
+export function groupSightingsByLocation(alerts: EBirdRareAlert[]): LocationGroup[] {
+  const groups = new Map<string, LocationGroup>()
+  const speciesByGroup = new Map<string, Map<string, LocationSpeciesSummary>>()
+
+  dedupeByObsId(alerts).forEach(alert => {
+    let group = groups.get(alert.locId)
+    if (!group) {
+      group = {
+        locId: alert.locId,
+        locName: alert.locName,
+        lat: alert.lat,
+        lng: alert.lng,
+        rarity: alert.rarity,
+        reportCount: 0,
+        latestObsDt: alert.obsDt,
+        distance: alert.distance,
+        species: [],
+      }
+      groups.set(alert.locId, group)
+      speciesByGroup.set(alert.locId, new Map())
+    }
+
+    group.reportCount += 1
+    group.rarity = rarerTier(group.rarity, alert.rarity)
+    if (alert.obsDt > group.latestObsDt) group.latestObsDt = alert.obsDt
+
+    const speciesMap = speciesByGroup.get(alert.locId)!
+    let species = speciesMap.get(alert.speciesCode)
+    if (!species) {
+      species = {
+        speciesCode: alert.speciesCode,
+        comName: alert.comName,
+        sciName: alert.sciName,
+        rarity: alert.rarity,
+        reportCount: 0,
+        latestObsDt: alert.obsDt,
+        observers: [],
+        latest: alert,
+        sightings: [],
+      }
+      speciesMap.set(alert.speciesCode, species)
+      group.species.push(species)
+    }
+
+    species.reportCount += 1
+    species.sightings.push(alert)
+    if (alert.obsDt >= species.latestObsDt) {
+      species.latestObsDt = alert.obsDt
+      species.latest = alert
+    }
+    if (alert.howMany !== undefined) {
+      species.maxHowMany = Math.max(species.maxHowMany ?? 0, alert.howMany)
+    }
+    if (alert.userDisplayName && !species.observers.includes(alert.userDisplayName)) {
+      species.observers.push(alert.userDisplayName)
+    }
+  })
+
+  groups.forEach(group => {
+    group.species.sort((a, b) =>
+      RARITY_TIERS.indexOf(b.rarity) - RARITY_TIERS.indexOf(a.rarity) ||
+      b.latestObsDt.localeCompare(a.latestObsDt)
+    )
+  })
+
+  return Array.from(groups.values())
+}
@@ -0,0 +1,44 @@
+/**
+ * Most locations eBird accepts in the `r` parameter
+ */
+export const MAX_LOCATIONS = 10
+
+const LOCATION_CODE_PATTERN = /^L\d+$/
+
+/**
+ * Split an `r` value into location codes
+ * @param value - Comma-separated codes, as stored in FilterOptions.r
+ * @returns Trimmed, upper-cased codes without duplicates
+ */
+export function parseLocationList(value: string | undefined): string[] {
+  if (!value) return []
+  const codes = value.split(',').map(code => code.trim().toUpperCase()).filter(Boolean)
+  return Array.from(new Set(codes))
+}
+
+/**
+ * Join location codes into an `r` value, or undefined when there are none
+ */
+export function formatLocationList(codes: string[]): string | undefined {
+  return codes.length > 0 ? codes.join(',') : undefined
+}
+
+/**
+ * Check a location code before adding it to a list
+ * @param code - Code to add
+ * @param codes - Codes already in the list
+ * @returns A message explaining why the code cannot be added, or null when it can
+ */
+export function validateLocationCode(code: string, codes: string[]): string | null {
+  const normalized = code.trim().toUpperCase()
+  if (!LOCATION_CODE_PATTERN.test(normalized)) {
+    return `${code.trim()} is not a location code; they look like L123456`
+  }
+  if (codes.includes(normalized)) {
+    return `${normalized} is already in the list`
+  }
+  if (codes.length >= MAX_LOCATIONS) {
+    return `eBird accepts up to ${MAX_LOCATIONS} locations`
+  }
+  return null
+}
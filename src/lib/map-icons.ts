@@ -0,0 +1,65 @@
+import { DivIcon, Icon, MarkerCluster, point } from 'leaflet'
+import { RarityTier } from '@/types/ebird'
+import { RARITY_TIERS, RARITY_TIER_INFO } from '@/lib/rare-alerts'
+
+/**
+ * Build the pin SVG markup in a given color
+ */
+function pinSvg(color: string): string {
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="32" height="32" viewBox="0 0 90 90">
+    <path d="M45 90C30.086 71.757 15.174 46.299 15.174 29.826S28.527 0 45 0s29.826 13.353 29.826 29.826S59.914 71.757 45 90z" fill="${color}" stroke="#ffffff" stroke-width="3"/>
+    <circle cx="45" cy="29.38" r="13.5" fill="#ffffff"/>
+  </svg>`
+}
+
+const rarityIcons = new Map<string, DivIcon>()
+const iconTiers = new Map<Icon | DivIcon, RarityTier>()
+const newSightingIcons = new Set<Icon | DivIcon>()
+
+/**
+ * Get the map pin for a rarity tier
+ * Icons are created once per tier and shared by every marker
+ * @param tier - Rarity tier that sets the pin color
+ * @param isNew - Badge and pulse the pin for sightings found by a background refresh
+ */
+export function getRarityIcon(tier: RarityTier, isNew = false): DivIcon {
+  const key = `${tier}:${isNew}`
+  let icon = rarityIcons.get(key)
+  if (!icon) {
+    icon = new DivIcon({
+      html: isNew ? `${pinSvg(RARITY_TIER_INFO[tier].color)}<span class="new-badge">new</span>` : pinSvg(RARITY_TIER_INFO[tier].color),
+      className: isNew ? 'rarity-pin is-new' : 'rarity-pin',
+      iconSize: [32, 32],
+      iconAnchor: [16, 32],
+      popupAnchor: [0, -32],
+    })
+    rarityIcons.set(key, icon)
+    iconTiers.set(icon, tier)
+    if (isNew) newSightingIcons.add(icon)
+  }
+  return icon
+}
+
+/**
+ * Create the count bubble for a marker cluster
+ * The bubble takes the color of the rarest tier among its markers and grows with the count,
+ * and pulses when it contains a new sighting
+ */
+export function createClusterIcon(cluster: MarkerCluster): DivIcon {
+  const count = cluster.getChildCount()
+  let rarestIndex = 0
+  let hasNew = false
+  cluster.getAllChildMarkers().forEach(marker => {
+    const tier = iconTiers.get(marker.options.icon as DivIcon)
+    if (tier) rarestIndex = Math.max(rarestIndex, RARITY_TIERS.indexOf(tier))
+    if (newSightingIcons.has(marker.options.icon as DivIcon)) hasNew = true
+  })
+
+  const size = count < 10 ? 32 : count < 100 ? 38 : count < 1000 ? 44 : 52
+  const color = RARITY_TIER_INFO[RARITY_TIERS[rarestIndex]].color
+  return new DivIcon({
+    html: `<div style="background:${color};width:${size}px;height:${size}px;line-height:${size}px">${count}</div>`,
+    className: hasNew ? 'sighting-cluster has-new' : 'sighting-cluster',
+    iconSize: point(size, size),
+  })
+}
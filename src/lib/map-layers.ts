@@ -0,0 +1,131 @@
+import type { HeatLatLngTuple } from 'leaflet'
+import { EBirdRareAlert } from '@/types/ebird'
+import { dedupeByObsId } from '@/lib/dedupe'
+
+/**
+ * How sightings are drawn on the map
+ */
+export type MapLayerMode = 'pins' | 'clusters' | 'heatmap' | 'regions'
+
+/**
+ * What the heatmap density is weighted by
+ */
+export type HeatmapWeight = 'reports' | 'howMany'
+
+/**
+ * Region level the region circles count reports by
+ */
+export type RegionLevel = 'subnational1' | 'subnational2'
+
+export const MAP_LAYER_MODES: { mode: MapLayerMode, label: string }[] = [
+  { mode: 'pins', label: 'Pins' },
+  { mode: 'clusters', label: 'Clusters' },
+  { mode: 'heatmap', label: 'Heatmap' },
+  { mode: 'regions', label: 'Region circles' },
+]
+
+export const HEATMAP_WEIGHTS: { weight: HeatmapWeight, label: string }[] = [
+  { weight: 'reports', label: 'Reports' },
+  { weight: 'howMany', label: 'Birds counted' },
+]
+
+/**
+ * Sequential palette for region count classes, lightest first
+ */
+export const REGION_COUNT_COLORS = ['#fee5d9', '#fcae91', '#fb6a4a', '#de2d26', '#a50f15']
+
+/**
+ * Notable reports counted for one county or state
+ */
+export interface RegionCount {
+  code: string
+  name: string
+  count: number
+  lat: number
+  lng: number
+}
+
+/**
+ * Heatmap points, one per location, weighted by reports or by the individuals counted
+ * Reports without a count (presence only) weigh as one bird
+ * @param alerts - Sightings to plot
+ * @param weight - Weighting of each report
+ * @returns Points and the largest weight, which sets the top of the color ramp
+ */
+export function buildHeatPoints(alerts: EBirdRareAlert[], weight: HeatmapWeight): { points: HeatLatLngTuple[], max: number } {
+  const byLocation = new Map<string, HeatLatLngTuple>()
+
+  dedupeByObsId(alerts).forEach(alert => {
+    const value = weight === 'howMany' ? alert.howMany ?? 1 : 1
+    const point = byLocation.get(alert.locId)
+    if (point) {
+      point[2] += value
+    } else {
+      byLocation.set(alert.locId, [alert.lat, alert.lng, value])
+    }
+  })
+
+  const points = Array.from(byLocation.values())
+  return { points, max: Math.max(1, ...points.map(point => point[2])) }
+}
+
+/**
+ * Count by county when every report is in one state, otherwise by state
+ */
+export function getRegionLevel(alerts: EBirdRareAlert[]): RegionLevel {
+  const states = new Set(alerts.map(alert => alert.subnational1Code))
+  return states.size === 1 && alerts.every(alert => alert.subnational2Code) ? 'subnational2' : 'subnational1'
+}
+
+/**
+ * Count notable reports per county or state
+ * eBird publishes no region boundaries, so each region is placed at the mean position of its reports
+ * @param alerts - Sightings to count
+ * @param level - Region level to count by
+ * @returns Regions with reports, most reports first
+ */
+export function countReportsByRegion(alerts: EBirdRareAlert[], level: RegionLevel): RegionCount[] {
+  const regions = new Map<string, RegionCount>()
+
+  dedupeByObsId(alerts).forEach(alert => {
+    const code = level === 'subnational2' ? alert.subnational2Code : alert.subnational1Code
+    if (!code) return
+    const name = (level === 'subnational2' ? alert.subnational2Name : alert.subnational1Name) || code
+
+    const region = regions.get(code)
+    if (region) {
+      // Running mean of the report positions
+      region.count++
+      region.lat += (alert.lat - region.lat) / region.count
+      region.lng += (alert.lng - region.lng) / region.count
+    } else {
+      regions.set(code, { code, name, count: 1, lat: alert.lat, lng: alert.lng })
+    }
+  })
+
+  return Array.from(regions.values()).sort((a, b) => b.count - a.count)
+}
+
+/**
+ * Upper bounds of equal-width count classes, one per region count color
+ * @param maxCount - Most reports in any region
+ * @returns Ascending class limits; small maxima give fewer classes
+ */
+export function getRegionCountBreaks(maxCount: number): number[] {
+  const top = Math.max(1, maxCount)
+  const width = Math.ceil(top / Math.min(REGION_COUNT_COLORS.length, top))
+  return Array.from({ length: Math.ceil(top / width) }, (_, index) => Math.min(top, width * (index + 1)))
+}
+
+/**
+ * Color of the class a count falls in
+ */
+export function getRegionCountColor(count: number, breaks: number[]): string {
+  const index = breaks.findIndex(limit => count <= limit)
+  const classIndex = index === -1 ? breaks.length - 1 : index
+  // Spread fewer classes across the whole palette so one class is not always the palest
+  const colorIndex = breaks.length === 1
+    ? REGION_COUNT_COLORS.length - 1
+    : Math.round(classIndex * (REGION_COUNT_COLORS.length - 1) / (breaks.length - 1))
+  return REGION_COUNT_COLORS[colorIndex]
+}
@@ -0,0 +1,41 @@
+import { RARITY_TIERS, RARITY_TIER_INFO } from '@/lib/rare-alerts'
+import { EBirdRareAlert } from '@/types/ebird'
+
+/**
+ * Auto-refresh intervals offered to the user, in minutes
+ * Notable observations are cached by the proxy for five minutes, so shorter intervals would not see new data
+ */
+export const REFRESH_INTERVAL_OPTIONS = [5, 10, 15, 30]
+
+const MAX_NAMED_SPECIES = 3
+
+/**
+ * Short summary of sightings found by a background refresh, for toasts and notifications
+ */
+export interface NewSightingsSummary {
+  title: string
+  description: string
+  rarest: EBirdRareAlert
+}
+
+/**
+ * Summarize new sightings, naming the rarest species first
+ * @param alerts - Newly found sightings; must not be empty
+ */
+export function summarizeNewSightings(alerts: EBirdRareAlert[]): NewSightingsSummary {
+  const sorted = [...alerts].sort((a, b) =>
+    RARITY_TIERS.indexOf(b.rarity) - RARITY_TIERS.indexOf(a.rarity) || b.obsDt.localeCompare(a.obsDt)
+  )
+  const names = Array.from(new Set(sorted.map(alert => alert.comName)))
+  const named = names.slice(0, MAX_NAMED_SPECIES).join(', ')
+  const others = names.length - MAX_NAMED_SPECIES
+  const rarest = sorted[0]
+
+  return {
+    title: `${alerts.length} new notable ${alerts.length === 1 ? 'sighting' : 'sightings'}`,
+    description: others > 0
+      ? `${named} and ${others} more. Rarest: ${RARITY_TIER_INFO[rarest.rarity].label.toLowerCase()}.`
+      : `${named}. Rarest: ${RARITY_TIER_INFO[rarest.rarity].label.toLowerCase()}.`,
+    rarest,
+  }
+}
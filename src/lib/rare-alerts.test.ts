@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest'
+import { classifyRarity, computeSpeciesFrequency, toRareAlerts } from '@/lib/rare-alerts'
+import { EBirdSighting } from '@/types/ebird'
+
+/**
+ * Notable sighting with the fields the tiers depend on
+ */
+function sighting(speciesCode: string, locId: string, subId: string, userDisplayName = 'Pat Birder'): EBirdSighting {
+  return {
+    speciesCode,
+    comName: speciesCode,
+    sciName: speciesCode,
+    locId,
+    locName: locId,
+    obsDt: '2024-05-01 07:30',
+    howMany: 1,
+    lat: 42.45,
+    lng: -76.5,
+    obsValid: true,
+    obsReviewed: false,
+    locationPrivate: false,
+    subnational1Code: 'US-NY',
+    subnational1Name: 'New York',
+    countryCode: 'US',
+    countryName: 'United States',
+    userDisplayName,
+    subId,
+    obsId: `OBS-${subId}-${speciesCode}`,
+    checklistId: 'CL1',
+    presenceNoted: false,
+    hasComments: false,
+    firstName: 'Pat',
+    lastName: 'Birder',
+    hasRichMedia: false,
+    locID: locId,
+  }
+}
+
+describe('computeSpeciesFrequency', () => {
+  it('counts distinct checklists, locations and observers per species', () => {
+    const frequency = computeSpeciesFrequency([
+      sighting('snoowl1', 'L1', 'S1', 'Pat'),
+      sighting('snoowl1', 'L1', 'S1', 'Pat'),
+      sighting('snoowl1', 'L1', 'S2', 'Sam'),
+      sighting('snoowl1', 'L2', 'S3', 'Sam'),
+      sighting('libher', 'L1', 'S1', 'Pat'),
+    ])
+
+    expect(frequency.get('snoowl1')).toEqual({ reports: 3, locations: 2, observers: 2 })
+    expect(frequency.get('libher')).toEqual({ reports: 1, locations: 1, observers: 1 })
+  })
+})
+
+describe('classifyRarity', () => {
+  it.each([
+    [{ reports: 1, locations: 1, observers: 1 }, 'accidental'],
+    [{ reports: 3, locations: 1, observers: 2 }, 'casual'],
+    [{ reports: 2, locations: 2, observers: 1 }, 'rare'],
+    [{ reports: 4, locations: 4, observers: 4 }, 'rare'],
+    [{ reports: 5, locations: 5, observers: 1 }, 'unusual'],
+  ] as const)('classifies %o as %s', (frequency, tier) => {
+    expect(classifyRarity(frequency)).toBe(tier)
+  })
+})
+
+describe('toRareAlerts', () => {
+  it('tiers each species by its frequency across the whole result set', () => {
+    const sightings = [
+      ...['L1', 'L2', 'L3', 'L4', 'L5'].map((locId, i) => sighting('comrav', locId, `S${i}`)),
+      sighting('snoowl1', 'L1', 'S10'),
+      sighting('snoowl1', 'L2', 'S11'),
+      sighting('libher', 'L1', 'S20'),
+      sighting('libher', 'L1', 'S21'),
+      sighting('whiibi', 'L1', 'S30'),
+    ]
+
+    const alerts = toRareAlerts(sightings)
+
+    const tiers = Object.fromEntries(alerts.map(alert => [alert.speciesCode, alert.rarity]))
+    expect(tiers).toEqual({ comrav: 'unusual', snoowl1: 'rare', libher: 'casual', whiibi: 'accidental' })
+    expect(alerts.map(alert => alert.obsId)).toEqual(sightings.map(item => item.obsId))
+  })
+
+  it('adds the distance from the user and the time since the observation', () => {
+    const [alert] = toRareAlerts([sighting('snoowl1', 'L1', 'S1')], {
+      userLocation: { latitude: 42.45, longitude: -76.5 },
+      now: new Date(2024, 4, 3, 7, 30),
+    })
+
+    expect(alert.distance).toBeCloseTo(0)
+    expect(alert.timeSince).toBe('2 days ago')
+  })
+
+  it('reports observations dated in the future as just now', () => {
+    const [alert] = toRareAlerts([sighting('snoowl1', 'L1', 'S1')], { now: new Date(2024, 4, 1, 6, 0) })
+
+    expect(alert.distance).toBeUndefined()
+    expect(alert.timeSince).toBe('just now')
+  })
+})
@@ -0,0 +1,101 @@
+import { formatDistance } from 'date-fns'
+import { EBirdRareAlert, EBirdSighting, RarityTier, UserLocation } from '@/types/ebird'
+import { haversineDistanceKm } from '@/lib/geo'
+import { parseObsDate } from '@/lib/utils'
+
+/**
+ * Rarity tiers from least to most rare
+ */
+export const RARITY_TIERS: RarityTier[] = ['unusual', 'rare', 'casual', 'accidental']
+
+/**
+ * Display metadata for each rarity tier
+ */
+export const RARITY_TIER_INFO: Record<RarityTier, { label: string, color: string, description: string }> = {
+  unusual: { label: 'Unusual', color: '#0ea5e9', description: 'Reported at 5 or more locations' },
+  rare: { label: 'Rare', color: '#eab308', description: 'Reported at 2-4 locations' },
+  casual: { label: 'Casual', color: '#f97316', description: 'One location, several reports' },
+  accidental: { label: 'Accidental', color: '#dc2626', description: 'A single report' },
+}
+
+/**
+ * How widely a species was reported in a set of sightings
+ */
+export interface SpeciesFrequency {
+  reports: number
+  locations: number
+  observers: number
+}
+
+/**
+ * Options for converting sightings into rare alerts
+ */
+export interface RareAlertOptions {
+  userLocation?: UserLocation
+  now?: Date
+}
+
+/**
+ * Count distinct checklists, locations and observers per species
+ * @param sightings - Notable sightings for a region or area
+ * @returns Frequency keyed by species code
+ */
+export function computeSpeciesFrequency(sightings: EBirdSighting[]): Map<string, SpeciesFrequency> {
+  const sets = new Map<string, { reports: Set<string>, locations: Set<string>, observers: Set<string> }>()
+
+  sightings.forEach(sighting => {
+    let entry = sets.get(sighting.speciesCode)
+    if (!entry) {
+      entry = { reports: new Set(), locations: new Set(), observers: new Set() }
+      sets.set(sighting.speciesCode, entry)
+    }
+    entry.reports.add(sighting.subId)
+    entry.locations.add(sighting.locId)
+    if (sighting.userDisplayName) entry.observers.add(sighting.userDisplayName)
+  })
+
+  const frequency = new Map<string, SpeciesFrequency>()
+  sets.forEach((entry, speciesCode) => {
+    frequency.set(speciesCode, {
+      reports: entry.reports.size,
+      locations: entry.locations.size,
+      observers: entry.observers.size,
+    })
+  })
+  return frequency
+}
+
+/**
+ * Derive a rarity tier from how widely a species was reported
+ * A species seen at many locations is less rare than one found once
+ */
+export function classifyRarity(frequency: SpeciesFrequency): RarityTier {
+  if (frequency.locations >= 5) return 'unusual'
+  if (frequency.locations >= 2) return 'rare'
+  if (frequency.reports >= 2) return 'casual'
+  return 'accidental'
+}
+
+/**
+ * Convert notable sightings into rare alerts
+ * Fills the distance from the user's location when one is known, a human time since the observation,
+ * and a rarity tier based on the species' frequency across the whole result set
+ * @param sightings - Sightings from a notable observations endpoint
+ * @param options - Context used to enrich each sighting
+ * @returns Alerts in the same order as the sightings
+ */
+export function toRareAlerts(sightings: EBirdSighting[], options: RareAlertOptions = {}): EBirdRareAlert[] {
+  const { userLocation, now = new Date() } = options
+  const origin = userLocation ? { lat: userLocation.latitude, lng: userLocation.longitude } : undefined
+  const frequency = computeSpeciesFrequency(sightings)
+
+  return sightings.map(sighting => {
+    const observedAt = parseObsDate(sighting.obsDt)
+    return {
+      ...sighting,
+      rarity: classifyRarity(frequency.get(sighting.speciesCode)!),
+      distance: origin ? haversineDistanceKm(origin, sighting) : undefined,
+      timeSince: observedAt > now ? 'just now' : formatDistance(observedAt, now, { addSuffix: true }),
+    }
+  })
+}
@@ -0,0 +1,170 @@
+import { ebirdApi } from '@/lib/ebird-api'
+import { regionCodeSchema } from '@/lib/ebird-endpoints'
+import { EBirdUpstreamError } from '@/lib/ebird-errors'
+import { haversineDistanceKm } from '@/lib/geo'
+import { EBirdHotspot, EBirdRegion, EBirdRegionType } from '@/types/ebird'
+
+/**
+ * Kind of code accepted in the regionCode filter
+ */
+export type RegionCodeType = EBirdRegionType | 'location'
+
+/**
+ * Country, subnational1 and subnational2 codes that make up a region code
+ */
+export interface RegionPath {
+  country?: string
+  subnational1?: string
+  subnational2?: string
+}
+
+// Region lists and names rarely change, so they are cached for the lifetime of the page
+// The proxy caches the same endpoints for days, so a reload is cheap as well
+const regionListCache = new Map<string, Promise<EBirdRegion[]>>()
+const regionNameCache = new Map<string, Promise<string | null>>()
+
+/**
+ * Cache a promise, dropping it again if it rejects so the request can be retried
+ */
+function cached<T>(cache: Map<string, Promise<T>>, key: string, load: () => Promise<T>): Promise<T> {
+  let promise = cache.get(key)
+  if (!promise) {
+    promise = load()
+    promise.catch(() => cache.delete(key))
+    cache.set(key, promise)
+  }
+  return promise
+}
+
+/**
+ * Work out what kind of region a code refers to
+ * @returns The code type, or null when the code is malformed
+ */
+export function getRegionCodeType(code: string): RegionCodeType | null {
+  if (!regionCodeSchema.safeParse(code).success) return null
+  if (/^L\d+$/i.test(code)) return 'location'
+
+  const parts = code.split('-').length
+  return parts === 1 ? 'country' : parts === 2 ? 'subnational1' : 'subnational2'
+}
+
+/**
+ * Split a region code into its country, subnational1 and subnational2 codes
+ * ("US-NY-001" gives US, US-NY and US-NY-001)
+ */
+export function getRegionPath(code: string): RegionPath {
+  const type = getRegionCodeType(code)
+  if (!type || type === 'location') return {}
+
+  const [country, state, county] = code.toUpperCase().split('-')
+  return {
+    country,
+    subnational1: state ? `${country}-${state}` : undefined,
+    subnational2: county ? `${country}-${state}-${county}` : undefined,
+  }
+}
+
+/**
+ * List the regions of a type within a parent region
+ * @param regionType - Type of region to list
+ * @param parentRegionCode - "world" for countries, otherwise a country or subnational1 code
+ * @returns Regions sorted by name
+ */
+export function listRegions(regionType: EBirdRegionType, parentRegionCode: string): Promise<EBirdRegion[]> {
+  return cached(regionListCache, `${regionType}:${parentRegionCode}`, async () => {
+    const regions = await ebirdApi.getSubRegions(regionType, parentRegionCode)
+    return [...regions].sort((a, b) => a.name.localeCompare(b.name))
+  })
+}
+
+/**
+ * Look up the display name of a region, e.g. "Albany, New York, United States"
+ * Malformed codes are rejected without a request
+ * @param code - Country, subnational or location code
+ * @returns The name, or null when eBird does not know the code
+ */
+export function getRegionName(code: string): Promise<string | null> {
+  const normalized = code.trim().toUpperCase()
+  if (!getRegionCodeType(normalized)) return Promise.resolve(null)
+
+  return cached(regionNameCache, normalized, async () => {
+    try {
+      const info = await ebirdApi.getRegionInfo(normalized, { regionNameFormat: 'detailed' })
+      return info.result || null
+    } catch (error) {
+      if (error instanceof EBirdUpstreamError && (error.status === 400 || error.status === 404)) {
+        return null
+      }
+      throw error
+    }
+  })
+}
+
+const hotspotListCache = new Map<string, Promise<EBirdHotspot[]>>()
+const hotspotCache = new Map<string, Promise<EBirdHotspot | null>>()
+
+/**
+ * List the hotspots in a state or county
+ * Country-wide lists run to tens of thousands of hotspots, so they are not offered
+ * @param regionCode - subnational1 or subnational2 code
+ * @returns Hotspots sorted by name, or an empty list for other kinds of code
+ */
+export function listRegionHotspots(regionCode: string): Promise<EBirdHotspot[]> {
+  const normalized = regionCode.trim().toUpperCase()
+  const type = getRegionCodeType(normalized)
+  if (type !== 'subnational1' && type !== 'subnational2') return Promise.resolve([])
+
+  return cached(hotspotListCache, normalized, async () => {
+    const hotspots = await ebirdApi.getRegionHotspots(normalized)
+    hotspots.forEach(hotspot => {
+      if (!hotspotCache.has(hotspot.locId)) hotspotCache.set(hotspot.locId, Promise.resolve(hotspot))
+    })
+    return [...hotspots].sort((a, b) => a.locName.localeCompare(b.locName))
+  })
+}
+
+/**
+ * Look up a hotspot by location code
+ * @returns The hotspot, or null when eBird does not know the code
+ */
+export function getHotspot(locId: string): Promise<EBirdHotspot | null> {
+  return cached(hotspotCache, locId, async () => {
+    try {
+      const location = await ebirdApi.getHotspotInfo(locId)
+      return {
+        locId: location.locId,
+        locName: location.name,
+        countryCode: location.countryCode,
+        subnational1Code: location.subnational1Code,
+        subnational2Code: location.subnational2Code,
+        lat: location.latitude,
+        lng: location.longitude,
+      }
+    } catch (error) {
+      if (error instanceof EBirdUpstreamError && (error.status === 400 || error.status === 404)) {
+        return null
+      }
+      throw error
+    }
+  })
+}
+
+/**
+ * Find the hotspot closest to a point, e.g. where the user clicked the map
+ * @param maxDistanceKm - How far from the point to look
+ * @returns The closest hotspot, or null when there is none within range
+ */
+export async function findNearestHotspot(lat: number, lng: number, maxDistanceKm = 2): Promise<EBirdHotspot | null> {
+  const hotspots = await ebirdApi.getNearbyHotspots(lat, lng, { dist: maxDistanceKm })
+  let nearest: EBirdHotspot | null = null
+  let nearestDistance = Infinity
+
+  hotspots.forEach(hotspot => {
+    const distance = haversineDistanceKm({ lat, lng }, hotspot)
+    if (distance < nearestDistance) {
+      nearest = hotspot
+      nearestDistance = distance
+    }
+  })
+  return nearest
+}
@@ -0,0 +1,143 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { runSubscription } from '@/lib/server/alert-scheduler'
+import { SubscriptionStore, setSubscriptionStore } from '@/lib/server/subscription-store'
+import { AlertSubscription, EBirdSighting } from '@/types/ebird'
+
+const { getNotableObservations, deliverWebhook } = vi.hoisted(() => ({
+  getNotableObservations: vi.fn(),
+  deliverWebhook: vi.fn(),
+}))
+
+vi.mock('@/lib/server/ebird-client', () => ({
+  createServerEbirdApi: () => ({ getNotableObservations }),
+  getServerApiKey: () => 'server-key',
+}))
+vi.mock('@/lib/server/webhooks', () => ({ deliverWebhook }))
+vi.mock('@/lib/server/email-delivery', () => ({ sendDigestEmail: vi.fn() }))
+
+/**
+ * Subscription store kept in memory for one test
+ */
+class MemorySubscriptionStore implements SubscriptionStore {
+  subscriptions = new Map<string, AlertSubscription>()
+  seen = new Map<string, Set<string>>()
+
+  async list() { return Array.from(this.subscriptions.values()) }
+  async get(id: string) { return this.subscriptions.get(id) }
+  async save(subscription: AlertSubscription) { this.subscriptions.set(subscription.id, subscription) }
+  async delete(id: string) { return this.subscriptions.delete(id) }
+  async getSeenObsIds(key: string) { return new Set(this.seen.get(key)) }
+  async addSeenObsIds(key: string, obsIds: string[]) {
+    const seen = this.seen.get(key) ?? new Set<string>()
+    obsIds.forEach(obsId => seen.add(obsId))
+    this.seen.set(key, seen)
+  }
+}
+
+const subscription: AlertSubscription = {
+  id: 'sub-1',
+  name: 'Tompkins rarities',
+  searchMode: 'region',
+  regionCode: 'US-NY-109',
+  back: 7,
+  includeSpecies: [],
+  excludeSpecies: [],
+  confirmedOnly: false,
+  webhookUrl: 'https://hooks.example.com/rare',
+  webhookFormat: 'json',
+  emailRecipients: [],
+  emailDigest: 'instant',
+  intervalMinutes: 15,
+  createdAt: '2024-05-01T00:00:00.000Z',
+}
+
+/**
+ * Notable sighting with a given observation id
+ */
+function sighting(obsId: string): EBirdSighting {
+  return {
+    speciesCode: 'snoowl1',
+    comName: 'Snowy Owl',
+    sciName: 'Bubo scandiacus',
+    locId: 'L123456',
+    locID: 'L123456',
+    locName: 'Cayuga Lake',
+    obsDt: '2024-05-01 07:30',
+    howMany: 1,
+    lat: 42.45,
+    lng: -76.5,
+    obsValid: true,
+    obsReviewed: true,
+    locationPrivate: false,
+    subnational2Code: 'US-NY-109',
+    subnational1Code: 'US-NY',
+    subnational1Name: 'New York',
+    countryCode: 'US',
+    countryName: 'United States',
+    userDisplayName: 'Pat Birder',
+    subId: `S${obsId.replace(/\D/g, '')}`,
+    obsId,
+    checklistId: 'CL1',
+    presenceNoted: false,
+    hasComments: false,
+    firstName: 'Pat',
+    lastName: 'Birder',
+    hasRichMedia: false,
+  }
+}
+
+describe('runSubscription', () => {
+  let store: MemorySubscriptionStore
+
+  /**
+   * Run the stored copy of the subscription, as the scheduler would
+   */
+  const run = async () => runSubscription((await store.get(subscription.id))!)
+
+  beforeEach(() => {
+    store = new MemorySubscriptionStore()
+    store.subscriptions.set(subscription.id, subscription)
+    setSubscriptionStore(store)
+    vi.spyOn(console, 'error').mockImplementation(() => undefined)
+  })
+
+  afterEach(() => {
+    vi.resetAllMocks()
+    vi.restoreAllMocks()
+  })
+
+  it('records sightings that were already notable on the first run without alerting', async () => {
+    getNotableObservations.mockResolvedValueOnce([sighting('OBS1'), sighting('OBS2')])
+
+    const result = await run()
+
+    expect(result).toMatchObject({ status: 'seeded', delivered: 0 })
+    expect(deliverWebhook).not.toHaveBeenCalled()
+    expect(store.subscriptions.get(subscription.id)?.seededAt).toBeDefined()
+  })
+
+  it('alerts only on sightings that appear after the first run', async () => {
+    getNotableObservations
+      .mockResolvedValueOnce([sighting('OBS1'), sighting('OBS2')])
+      .mockResolvedValueOnce([sighting('OBS1'), sighting('OBS2'), sighting('OBS3')])
+
+    await run()
+    const result = await run()
+
+    expect(result).toMatchObject({ status: 'delivered', delivered: 1 })
+    expect(deliverWebhook).toHaveBeenCalledTimes(1)
+    expect(deliverWebhook.mock.calls[0][1].map((item: EBirdSighting) => item.obsId)).toEqual(['OBS3'])
+  })
+
+  it('seeds on the next run when the first query fails', async () => {
+    getNotableObservations
+      .mockRejectedValueOnce(new Error('eBird is down'))
+      .mockResolvedValueOnce([sighting('OBS1'), sighting('OBS2')])
+
+    await expect(run()).resolves.toMatchObject({ status: 'failed' })
+    expect(store.subscriptions.get(subscription.id)?.seededAt).toBeUndefined()
+
+    await expect(run()).resolves.toMatchObject({ status: 'seeded', delivered: 0 })
+    expect(deliverWebhook).not.toHaveBeenCalled()
+  })
+})
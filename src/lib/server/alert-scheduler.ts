@@ -0,0 +1,214 @@
+import { createServerEbirdApi, getServerApiKey } from '@/lib/server/ebird-client'
+import { getSubscriptionStore } from '@/lib/server/subscription-store'
+import { isDailyDigestDue, isInQuietHours, isSubscriptionDue, matchesSubscription } from '@/lib/server/alert-subscriptions'
+import { renderDigest } from '@/lib/server/email-digest'
+import { sendDigestEmail } from '@/lib/server/email-delivery'
+import { deliverWebhook } from '@/lib/server/webhooks'
+import { AlertSubscription, EBirdSighting } from '@/types/ebird'
+
+/**
+ * Outcome of running one subscription
+ * `seeded` is a first run, which records current sightings without delivering them
+ */
+export interface SubscriptionRunResult {
+  subscriptionId: string
+  status: 'delivered' | 'seeded' | 'no-new' | 'quiet' | 'failed'
+  delivered: number
+  emailed: number
+  error?: string
+}
+
+const TICK_INTERVAL_MS = 60 * 1000
+
+/**
+ * Fetch the notable sightings a subscription watches, without duplicates
+ */
+async function fetchSubscriptionSightings(subscription: AlertSubscription): Promise<EBirdSighting[]> {
+  const api = createServerEbirdApi()
+  const sightings = subscription.searchMode === 'nearby'
+    ? await api.getNearbyNotableObservations(subscription.lat!, subscription.lng!, {
+        dist: subscription.dist,
+        back: subscription.back,
+        detail: 'full',
+      })
+    : await api.getNotableObservations(subscription.regionCode!, { back: subscription.back, detail: 'full' })
+
+  const byObsId = new Map<string, EBirdSighting>()
+  sightings.forEach(sighting => {
+    if (!byObsId.has(sighting.obsId)) byObsId.set(sighting.obsId, sighting)
+  })
+  return Array.from(byObsId.values())
+}
+
+/**
+ * Describe the searched area for email digests
+ */
+function describeArea(subscription: AlertSubscription): string {
+  return subscription.searchMode === 'nearby'
+    ? `Within ${subscription.dist ?? 25} km of ${subscription.lat?.toFixed(3)}, ${subscription.lng?.toFixed(3)}`
+    : `Region ${subscription.regionCode}`
+}
+
+/**
+ * Deliver sightings not yet sent through one channel, then mark them as seen for that channel
+ * Sightings are only marked after delivery succeeds, so a failed delivery is retried next run
+ * @param seenKey - Seen-set key of the channel
+ * @param sightings - Current matching sightings
+ * @param isFirstRun - Record the sightings without delivering them
+ * @param deliver - Sends the new sightings
+ * @returns How many sightings were delivered
+ */
+async function deliverNew(
+  seenKey: string,
+  sightings: EBirdSighting[],
+  isFirstRun: boolean,
+  deliver: (fresh: EBirdSighting[]) => Promise<void>
+): Promise<number> {
+  const store = getSubscriptionStore()
+  const seen = await store.getSeenObsIds(seenKey)
+  const fresh = sightings.filter(sighting => !seen.has(sighting.obsId))
+  if (fresh.length === 0) return 0
+
+  // Sightings that were already notable when the subscription was created are not news
+  if (!isFirstRun) await deliver(fresh)
+  await store.addSeenObsIds(seenKey, fresh.map(sighting => sighting.obsId))
+  return isFirstRun ? 0 : fresh.length
+}
+
+/**
+ * Run a subscription once: fetch, drop sightings already delivered and send the rest
+ * The webhook and email keep separate seen-sets so a failure in one does not hold back the other
+ * Daily email digests go out once a day with everything found since the last one
+ * Nothing runs during quiet hours; sightings from that time are delivered on the first run after
+ */
+export async function runSubscription(subscription: AlertSubscription): Promise<SubscriptionRunResult> {
+  const result: SubscriptionRunResult = { subscriptionId: subscription.id, status: 'no-new', delivered: 0, emailed: 0 }
+  if (subscription.quietHours && isInQuietHours(subscription.quietHours)) {
+    return { ...result, status: 'quiet' }
+  }
+
+  const store = getSubscriptionStore()
+  // Not lastRunAt: a first run whose query failed has recorded nothing yet
+  const isFirstRun = !subscription.seededAt
+  const now = new Date().toISOString()
+  const updated: AlertSubscription = { ...subscription, lastRunAt: now, lastError: undefined }
+  const errors: string[] = []
+
+  /**
+   * Record a failed step without stopping the others
+   */
+  const fail = (step: string, error: unknown) => {
+    console.error(`Alert subscription ${subscription.id} ${step} failed:`, error)
+    errors.push(`${step}: ${error instanceof Error ? error.message : String(error)}`)
+  }
+
+  let sightings: EBirdSighting[] = []
+  try {
+    sightings = (await fetchSubscriptionSightings(subscription))
+      .filter(sighting => matchesSubscription(sighting, subscription))
+  } catch (error) {
+    fail('eBird query', error)
+  }
+
+  if (errors.length === 0 && subscription.webhookUrl) {
+    try {
+      result.delivered = await deliverNew(subscription.id, sightings, isFirstRun, fresh => deliverWebhook(subscription, fresh))
+      if (result.delivered > 0) updated.lastDeliveredAt = now
+    } catch (error) {
+      fail('webhook', error)
+    }
+  }
+
+  const isDaily = subscription.emailDigest === 'daily'
+  if (errors.length === 0 && subscription.emailRecipients.length > 0 && (isFirstRun || !isDaily || isDailyDigestDue(subscription))) {
+    try {
+      result.emailed = await deliverNew(`${subscription.id}:email`, sightings, isFirstRun, fresh => {
+        const count = fresh.length
+        const title = isDaily
+          ? `Daily digest: ${count} notable ${count === 1 ? 'sighting' : 'sightings'} for ${subscription.name}`
+          : `${count} new notable ${count === 1 ? 'sighting' : 'sightings'} for ${subscription.name}`
+        return sendDigestEmail(
+          subscription.emailRecipients,
+          renderDigest(fresh, { title, intro: describeArea(subscription), appUrl: process.env.APP_URL?.trim() || undefined })
+        )
+      })
+      // The next daily digest is due a day after this run, even if there was nothing to send
+      if (isDaily || result.emailed > 0) updated.lastEmailedAt = now
+    } catch (error) {
+      fail('email', error)
+    }
+  }
+
+  if (errors.length > 0) {
+    updated.lastError = errors.join('; ')
+    result.status = 'failed'
+    result.error = updated.lastError
+  } else if (isFirstRun) {
+    updated.seededAt = now
+    result.status = 'seeded'
+  } else if (result.delivered > 0 || result.emailed > 0) {
+    result.status = 'delivered'
+  }
+
+  // The subscription may have been deleted while it was running
+  if (await store.get(subscription.id)) {
+    await store.save(updated)
+  }
+  return result
+}
+
+/**
+ * Run every subscription whose interval has passed, one at a time
+ * A subscription that throws is reported as failed and the rest still run
+ */
+export async function runDueSubscriptions(): Promise<SubscriptionRunResult[]> {
+  const subscriptions = await getSubscriptionStore().list()
+  const results: SubscriptionRunResult[] = []
+  for (const subscription of subscriptions) {
+    if (!isSubscriptionDue(subscription)) continue
+    try {
+      results.push(await runSubscription(subscription))
+    } catch (error) {
+      console.error(`Alert subscription ${subscription.id} run failed:`, error)
+      results.push({
+        subscriptionId: subscription.id,
+        status: 'failed',
+        delivered: 0,
+        emailed: 0,
+        error: error instanceof Error ? error.message : String(error),
+      })
+    }
+  }
+  return results
+}
+
+// Keep the timer on globalThis so hot reloads and multiple bundles start a single scheduler
+const globalForScheduler = globalThis as unknown as {
+  alertSchedulerTimer?: ReturnType<typeof setInterval>
+  alertSchedulerRunning?: boolean
+}
+
+/**
+ * Start checking subscriptions every minute
+ * Runs need the server's EBIRD_API_KEY, so the scheduler stays off without one
+ */
+export function startAlertScheduler() {
+  if (globalForScheduler.alertSchedulerTimer) return
+  if (!getServerApiKey()) {
+    console.warn('Alert subscriptions are enabled but EBIRD_API_KEY is not set; the scheduler will not run')
+    return
+  }
+
+  globalForScheduler.alertSchedulerTimer = setInterval(async () => {
+    // Skip a tick while a slow run (webhook retries, eBird timeouts) is still going
+    if (globalForScheduler.alertSchedulerRunning) return
+    globalForScheduler.alertSchedulerRunning = true
+    try {
+      await runDueSubscriptions()
+    } catch (error) {
+      console.error('Alert scheduler tick failed:', error)
+    } finally {
+      globalForScheduler.alertSchedulerRunning = false
+    }
+  }, TICK_INTERVAL_MS)
+}
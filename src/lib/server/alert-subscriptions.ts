@@ -0,0 +1,141 @@
+import { z } from 'zod'
+import { regionCodeSchema, speciesCodeSchema } from '@/lib/ebird-endpoints'
+import { isConfirmed } from '@/lib/client-filters'
+import { AlertSubscription, EBirdSighting, QuietHours } from '@/types/ebird'
+
+/**
+ * Shortest allowed interval between runs of a subscription, in minutes
+ * The notable observations feed rarely changes faster, and each run costs an eBird request
+ */
+export const MIN_SUBSCRIPTION_INTERVAL_MINUTES = 10
+
+/**
+ * Whether a string is a time zone the runtime knows
+ */
+function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Must be a 24-hour time such as 22:00')
+
+const quietHoursSchema = z.object({
+  start: timeOfDaySchema,
+  end: timeOfDaySchema,
+  timeZone: z.string().refine(isValidTimeZone, 'Must be an IANA time zone such as America/New_York'),
+}).strict()
+
+const speciesListSchema = z.array(speciesCodeSchema.transform(code => code.toLowerCase())).max(500).default([])
+
+/**
+ * Request body for creating a subscription
+ * Region mode needs `regionCode`; nearby mode needs `lat` and `lng`, with `dist` in kilometres
+ * Sightings go to a webhook, email recipients or both
+ */
+export const subscriptionInputSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  searchMode: z.enum(['region', 'nearby']).default('region'),
+  regionCode: regionCodeSchema.transform(code => code.toUpperCase()).optional(),
+  lat: z.number().min(-90).max(90).optional(),
+  lng: z.number().min(-180).max(180).optional(),
+  dist: z.number().min(0).max(50).default(25),
+  back: z.number().int().min(1).max(30).default(2),
+  includeSpecies: speciesListSchema,
+  excludeSpecies: speciesListSchema,
+  confirmedOnly: z.boolean().default(false),
+  quietHours: quietHoursSchema.optional(),
+  webhookUrl: z.string().url().refine(url => /^https?:\/\//i.test(url), 'Must be an http or https URL').optional(),
+  webhookFormat: z.enum(['json', 'slack', 'discord']).default('json'),
+  emailRecipients: z.array(z.string().trim().email()).max(50).default([]),
+  emailDigest: z.enum(['instant', 'daily']).default('instant'),
+  intervalMinutes: z.number().int().min(MIN_SUBSCRIPTION_INTERVAL_MINUTES).max(24 * 60).default(15),
+}).strict().superRefine((input, ctx) => {
+  if (input.searchMode === 'region' && !input.regionCode) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['regionCode'], message: 'Region code is required in region mode' })
+  }
+  if (input.searchMode === 'nearby' && (input.lat === undefined || input.lng === undefined)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['lat'], message: 'Latitude and longitude are required in nearby mode' })
+  }
+  if (!input.webhookUrl && input.emailRecipients.length === 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['webhookUrl'], message: 'A webhook URL or email recipients are required' })
+  }
+})
+
+export type SubscriptionInput = z.infer<typeof subscriptionInputSchema>
+
+/**
+ * Create a subscription from validated input
+ * Only the fields used by the chosen search mode are kept
+ */
+export function createSubscription(input: SubscriptionInput): AlertSubscription {
+  const isNearby = input.searchMode === 'nearby'
+  return {
+    id: crypto.randomUUID(),
+    name: input.name,
+    searchMode: input.searchMode,
+    regionCode: isNearby ? undefined : input.regionCode,
+    lat: isNearby ? input.lat : undefined,
+    lng: isNearby ? input.lng : undefined,
+    dist: isNearby ? input.dist : undefined,
+    back: input.back,
+    includeSpecies: input.includeSpecies,
+    excludeSpecies: input.excludeSpecies,
+    confirmedOnly: input.confirmedOnly,
+    quietHours: input.quietHours,
+    webhookUrl: input.webhookUrl,
+    webhookFormat: input.webhookFormat,
+    emailRecipients: input.emailRecipients,
+    emailDigest: input.emailDigest,
+    intervalMinutes: input.intervalMinutes,
+    createdAt: new Date().toISOString(),
+  }
+}
+
+/**
+ * Whether a moment falls inside the quiet hours
+ * A window whose end is before its start spans midnight, e.g. 22:00-07:00
+ */
+export function isInQuietHours(quietHours: QuietHours, now = new Date()): boolean {
+  const { start, end, timeZone } = quietHours
+  if (start === end) return false
+
+  const time = new Intl.DateTimeFormat('en-GB', {
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+    timeZone,
+  }).format(now)
+  return start < end ? time >= start && time < end : time >= start || time < end
+}
+
+/**
+ * Whether a sighting passes the species lists and confirmed-only flag of a subscription
+ * An empty include list allows every species
+ */
+export function matchesSubscription(sighting: EBirdSighting, subscription: AlertSubscription): boolean {
+  const speciesCode = sighting.speciesCode.toLowerCase()
+  if (subscription.includeSpecies.length > 0 && !subscription.includeSpecies.includes(speciesCode)) return false
+  if (subscription.excludeSpecies.includes(speciesCode)) return false
+  if (subscription.confirmedOnly && !isConfirmed(sighting)) return false
+  return true
+}
+
+/**
+ * Whether a daily digest is due: a day has passed since the last one was sent
+ */
+export function isDailyDigestDue(subscription: AlertSubscription, now = Date.now()): boolean {
+  if (!subscription.lastEmailedAt) return true
+  return now - new Date(subscription.lastEmailedAt).getTime() >= 24 * 60 * 60 * 1000
+}
+
+/**
+ * Whether a subscription's interval has passed since its last run
+ */
+export function isSubscriptionDue(subscription: AlertSubscription, now = Date.now()): boolean {
+  if (!subscription.lastRunAt) return true
+  return now - new Date(subscription.lastRunAt).getTime() >= subscription.intervalMinutes * 60 * 1000
+}
@@ -0,0 +1,73 @@
+import { mkdtemp, readFile, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import path from 'path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+const globalForSessions = globalThis as unknown as {
+  ebirdApiKeySessions?: unknown
+  ebirdApiKeySessionsWriting?: Promise<void>
+}
+
+/**
+ * Fresh copy of the module, as after a server restart
+ */
+async function restart() {
+  await globalForSessions.ebirdApiKeySessionsWriting
+  delete globalForSessions.ebirdApiKeySessions
+  vi.resetModules()
+  return import('@/lib/server/api-key-session')
+}
+
+describe('API key sessions', () => {
+  let dir: string
+  let filePath: string
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'api-key-sessions-'))
+    filePath = path.join(dir, 'sessions.json')
+    vi.stubEnv('API_KEY_SESSIONS_FILE', filePath)
+    vi.stubEnv('API_KEY_SESSION_SECRET', 'test-secret')
+  })
+
+  afterEach(async () => {
+    await globalForSessions.ebirdApiKeySessionsWriting
+    vi.unstubAllEnvs()
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  it('keeps only remembered sessions across a restart, with the key encrypted on disk', async () => {
+    const sessions = await restart()
+    const remembered = sessions.createApiKeySession('remembered-key', true)
+    const temporary = sessions.createApiKeySession('temporary-key')
+    await globalForSessions.ebirdApiKeySessionsWriting
+
+    const file = await readFile(filePath, 'utf8')
+    expect(file).not.toContain('remembered-key')
+    expect(file).not.toContain(temporary.id)
+
+    const restarted = await restart()
+    await restarted.loadApiKeySessions()
+    expect(restarted.getApiKeySession(remembered.id)?.apiKey).toBe('remembered-key')
+    expect(restarted.getApiKeySession(temporary.id)).toBeUndefined()
+  })
+
+  it('drops sessions encrypted with a previous secret', async () => {
+    const sessions = await restart()
+    const { id } = sessions.createApiKeySession('remembered-key', true)
+
+    vi.stubEnv('API_KEY_SESSION_SECRET', 'rotated-secret')
+    const restarted = await restart()
+    await restarted.loadApiKeySessions()
+
+    expect(restarted.getApiKeySession(id)).toBeUndefined()
+  })
+
+  it('writes nothing without a secret', async () => {
+    vi.stubEnv('API_KEY_SESSION_SECRET', '')
+    const sessions = await restart()
+    sessions.createApiKeySession('remembered-key', true)
+    await globalForSessions.ebirdApiKeySessionsWriting
+
+    await expect(readFile(filePath, 'utf8')).rejects.toMatchObject({ code: 'ENOENT' })
+  })
+})
@@ -0,0 +1,281 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto'
+import { mkdir, readFile, rename, writeFile } from 'fs/promises'
+import path from 'path'
+import { NextRequest } from 'next/server'
+import { EBIRD_API_KEY_HEADER } from '@/lib/ebird-transport'
+import { EBirdAuthError } from '@/lib/ebird-errors'
+import { createServerEbirdApi, getServerApiKey } from '@/lib/server/ebird-client'
+import { ApiKeySession, ApiKeySource } from '@/types/ebird'
+
+export const SESSION_COOKIE_NAME = 'ebird_session'
+export const SESSION_TTL_SECONDS = 60 * 60 * 24 * 7
+export const REMEMBERED_SESSION_TTL_SECONDS = 60 * 60 * 24 * 90
+const MAX_VERIFIED_HEADER_KEYS = 1000
+
+interface StoredSession {
+  apiKey: string
+  expiresAt: number
+  remembered?: boolean
+}
+
+/**
+ * Remembered session as written to the sessions file
+ */
+interface PersistedSession {
+  encryptedKey: string
+  expiresAt: number
+}
+
+/**
+ * Shape of the sessions file, keyed by session id
+ */
+interface SessionFile {
+  version: 1
+  sessions: Record<string, PersistedSession>
+}
+
+/**
+ * API key resolved for a proxy request
+ */
+export interface ResolvedApiKey {
+  apiKey: string
+  source: ApiKeySource
+  expiresAt?: number
+  remembered?: boolean
+  /** False for a header key eBird has not accepted yet */
+  verified: boolean
+}
+
+/**
+ * Location of the sessions file, from API_KEY_SESSIONS_FILE or under .data in the project
+ */
+function getSessionsFilePath(): string {
+  return process.env.API_KEY_SESSIONS_FILE?.trim() || path.join(process.cwd(), '.data', 'api-key-sessions.json')
+}
+
+/**
+ * AES-256-GCM key derived from API_KEY_SESSION_SECRET, or null when no secret is configured
+ */
+function getEncryptionKey(): Buffer | null {
+  const secret = process.env.API_KEY_SESSION_SECRET?.trim()
+  return secret ? createHash('sha256').update(secret).digest() : null
+}
+
+function encryptApiKey(apiKey: string, key: Buffer): string {
+  const iv = randomBytes(12)
+  const cipher = createCipheriv('aes-256-gcm', key, iv)
+  const data = Buffer.concat([cipher.update(apiKey, 'utf8'), cipher.final()])
+  return [iv, cipher.getAuthTag(), data].map(part => part.toString('base64')).join('.')
+}
+
+/**
+ * @throws When the key was encrypted with another secret or the value was altered
+ */
+function decryptApiKey(encryptedKey: string, key: Buffer): string {
+  const [iv, tag, data] = encryptedKey.split('.').map(part => Buffer.from(part, 'base64'))
+  const decipher = createDecipheriv('aes-256-gcm', key, iv)
+  decipher.setAuthTag(tag)
+  return Buffer.concat([decipher.update(data), decipher.final()]).toString('utf8')
+}
+
+// Keep sessions on globalThis so every route handler bundle shares the same store
+const globalForSessions = globalThis as unknown as {
+  ebirdApiKeySessions?: Map<string, StoredSession>
+  ebirdVerifiedHeaderKeys?: Set<string>
+  ebirdApiKeySessionsWriting?: Promise<void>
+}
+const sessions = globalForSessions.ebirdApiKeySessions ?? new Map<string, StoredSession>()
+globalForSessions.ebirdApiKeySessions = sessions
+
+// Digests of header keys eBird has answered successfully, oldest first
+const verifiedHeaderKeys = globalForSessions.ebirdVerifiedHeaderKeys ?? new Set<string>()
+globalForSessions.ebirdVerifiedHeaderKeys = verifiedHeaderKeys
+
+function digestApiKey(apiKey: string): string {
+  return createHash('sha256').update(apiKey).digest('hex')
+}
+
+/**
+ * Restore remembered sessions from the sessions file
+ * Called once at server start so session lookups can stay synchronous; without API_KEY_SESSION_SECRET,
+ * or for keys encrypted with a previous secret, the sessions are left out
+ */
+export async function loadApiKeySessions(): Promise<void> {
+  const key = getEncryptionKey()
+  if (!key) return
+
+  let data: SessionFile
+  try {
+    data = JSON.parse(await readFile(getSessionsFilePath(), 'utf8')) as SessionFile
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error('Failed to read API key sessions:', error)
+    }
+    return
+  }
+
+  const now = Date.now()
+  Object.entries(data.sessions ?? {}).forEach(([id, session]) => {
+    if (session.expiresAt <= now || sessions.has(id)) return
+    try {
+      sessions.set(id, { apiKey: decryptApiKey(session.encryptedKey, key), expiresAt: session.expiresAt, remembered: true })
+    } catch {
+      // Encrypted with a previous secret; the user registers the key again
+    }
+  })
+}
+
+/**
+ * Write the remembered sessions with their keys encrypted, one write at a time,
+ * through a temporary file readable by the server user only
+ * Other sessions are never written; without API_KEY_SESSION_SECRET nothing is, and remembered
+ * sessions last until the next restart
+ * @returns Promise that resolves once written; failures are logged, never thrown
+ */
+function persistSessions(): Promise<void> {
+  const key = getEncryptionKey()
+  if (!key) return Promise.resolve()
+
+  const previous = globalForSessions.ebirdApiKeySessionsWriting ?? Promise.resolve()
+  const write = previous
+    .then(async () => {
+      const data: SessionFile = { version: 1, sessions: {} }
+      sessions.forEach((session, id) => {
+        if (session.remembered) {
+          data.sessions[id] = { encryptedKey: encryptApiKey(session.apiKey, key), expiresAt: session.expiresAt }
+        }
+      })
+
+      const filePath = getSessionsFilePath()
+      await mkdir(path.dirname(filePath), { recursive: true })
+      const tempPath = `${filePath}.tmp`
+      await writeFile(tempPath, JSON.stringify(data), { encoding: 'utf8', mode: 0o600 })
+      await rename(tempPath, filePath)
+    })
+    .catch(error => {
+      console.error('Failed to write API key sessions:', error)
+    })
+  globalForSessions.ebirdApiKeySessionsWriting = write
+  return write
+}
+
+/**
+ * Store an API key server-side and return the opaque session id for the cookie
+ * @param apiKey - eBird API key supplied by the user
+ * @param remember - Keep the session for REMEMBERED_SESSION_TTL_SECONDS instead of SESSION_TTL_SECONDS
+ * @returns Session id, expiry timestamp (ms) and the matching cookie max age (s)
+ */
+export function createApiKeySession(
+  apiKey: string,
+  remember = false
+): { id: string, expiresAt: number, maxAgeSeconds: number } {
+  const id = crypto.randomUUID()
+  const maxAgeSeconds = remember ? REMEMBERED_SESSION_TTL_SECONDS : SESSION_TTL_SECONDS
+  const expiresAt = Date.now() + maxAgeSeconds * 1000
+  sessions.set(id, { apiKey, expiresAt, remembered: remember })
+  if (remember) {
+    persistSessions()
+  }
+  return { id, expiresAt, maxAgeSeconds }
+}
+
+/**
+ * Look up a stored session, evicting it if it has expired
+ */
+export function getApiKeySession(id: string): StoredSession | undefined {
+  const session = sessions.get(id)
+  if (session && session.expiresAt <= Date.now()) {
+    sessions.delete(id)
+    if (session.remembered) {
+      persistSessions()
+    }
+    return undefined
+  }
+  return session
+}
+
+/**
+ * Remove a stored session
+ */
+export function deleteApiKeySession(id: string) {
+  const session = sessions.get(id)
+  sessions.delete(id)
+  if (session?.remembered) {
+    persistSessions()
+  }
+}
+
+/**
+ * Record that eBird accepted a key sent in the request header
+ * Only a digest is kept, capped at the most recent MAX_VERIFIED_HEADER_KEYS keys
+ */
+export function markApiKeyVerified(apiKey: string) {
+  const digest = digestApiKey(apiKey)
+  verifiedHeaderKeys.delete(digest)
+  verifiedHeaderKeys.add(digest)
+  if (verifiedHeaderKeys.size > MAX_VERIFIED_HEADER_KEYS) {
+    const oldest = verifiedHeaderKeys.values().next().value
+    if (oldest !== undefined) verifiedHeaderKeys.delete(oldest)
+  }
+}
+
+/**
+ * Resolve the API key for a request
+ * A key in the request header wins, then the session cookie, then EBIRD_API_KEY
+ * Session keys were checked on registration and the server key is trusted;
+ * a header key is only verified once eBird has accepted it
+ * @returns The resolved key and its source, or null when none is available
+ */
+export function resolveApiKey(request: NextRequest): ResolvedApiKey | null {
+  const headerKey = request.headers.get(EBIRD_API_KEY_HEADER)?.trim()
+  if (headerKey) {
+    return { apiKey: headerKey, source: 'session', verified: verifiedHeaderKeys.has(digestApiKey(headerKey)) }
+  }
+
+  const sessionId = request.cookies.get(SESSION_COOKIE_NAME)?.value
+  const session = sessionId ? getApiKeySession(sessionId) : undefined
+  if (session) {
+    return {
+      apiKey: session.apiKey,
+      source: 'session',
+      expiresAt: session.expiresAt,
+      remembered: session.remembered,
+      verified: true,
+    }
+  }
+
+  const serverKey = getServerApiKey()
+  if (serverKey) {
+    return { apiKey: serverKey, source: 'server', verified: true }
+  }
+
+  return null
+}
+
+/**
+ * Build the public session reference for a resolved key
+ * Only the last four characters of a user key are exposed
+ */
+export function toApiKeySession(resolved: ResolvedApiKey): ApiKeySession {
+  return {
+    source: resolved.source,
+    keyHint: resolved.source === 'session' ? `…${resolved.apiKey.slice(-4)}` : undefined,
+    expiresAt: resolved.expiresAt ? new Date(resolved.expiresAt).toISOString() : undefined,
+    remembered: resolved.remembered,
+  }
+}
+
+/**
+ * Check an API key against eBird before storing it
+ * @returns Promise with boolean indicating if eBird accepted the key
+ * @throws For failures other than a rejected key, such as eBird being unreachable
+ */
+export async function verifyApiKey(apiKey: string): Promise<boolean> {
+  try {
+    await createServerEbirdApi({ apiKey, retry: { retries: 0 } }).getNotableObservations('US', { back: 1, maxResults: 1 })
+    return true
+  } catch (error) {
+    if (error instanceof EBirdAuthError) return false
+    throw error
+  }
+}
@@ -0,0 +1,93 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { MemoryCacheStore, buildCacheKey, getOrFetch, setCacheStore } from '@/lib/server/ebird-cache'
+
+// Fresh for a minute, then served stale for two more
+const POLICY = { ttl: 60, staleWhileRevalidate: 120 }
+
+describe('getOrFetch', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    setCacheStore(new MemoryCacheStore())
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  it('fetches on a miss and serves hits until the TTL runs out', async () => {
+    const fetcher = vi.fn(async () => ['first'])
+
+    await expect(getOrFetch('key', POLICY, fetcher)).resolves.toMatchObject({ data: ['first'], status: 'MISS' })
+    vi.advanceTimersByTime(59_000)
+    await expect(getOrFetch('key', POLICY, fetcher)).resolves.toMatchObject({ data: ['first'], status: 'HIT' })
+    expect(fetcher).toHaveBeenCalledTimes(1)
+  })
+
+  it('serves a stale entry while refreshing it in the background', async () => {
+    const fetcher = vi.fn()
+      .mockResolvedValueOnce(['first'])
+      .mockResolvedValueOnce(['second'])
+    await getOrFetch('key', POLICY, fetcher)
+
+    vi.advanceTimersByTime(90_000)
+    await expect(getOrFetch('key', POLICY, fetcher)).resolves.toMatchObject({ data: ['first'], status: 'STALE' })
+    expect(fetcher).toHaveBeenCalledTimes(2)
+
+    await vi.waitFor(async () => {
+      await expect(getOrFetch('key', POLICY, fetcher)).resolves.toMatchObject({ data: ['second'], status: 'HIT' })
+    })
+  })
+
+  it('keeps serving the stale entry when the refresh fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined)
+    const fetcher = vi.fn()
+      .mockResolvedValueOnce(['first'])
+      .mockRejectedValueOnce(new Error('eBird is down'))
+    await getOrFetch('key', POLICY, fetcher)
+
+    vi.advanceTimersByTime(90_000)
+    await expect(getOrFetch('key', POLICY, fetcher)).resolves.toMatchObject({ data: ['first'], status: 'STALE' })
+    await vi.waitFor(() => expect(console.error).toHaveBeenCalled())
+  })
+
+  it('fetches again once the stale window has passed', async () => {
+    const fetcher = vi.fn()
+      .mockResolvedValueOnce(['first'])
+      .mockResolvedValueOnce(['second'])
+    await getOrFetch('key', POLICY, fetcher)
+
+    vi.advanceTimersByTime(180_000)
+    await expect(getOrFetch('key', POLICY, fetcher)).resolves.toMatchObject({ data: ['second'], status: 'MISS' })
+  })
+
+  it('shares one upstream request between concurrent callers', async () => {
+    let resolve: (value: string[]) => void = () => undefined
+    const fetcher = vi.fn(() => new Promise<string[]>(done => { resolve = done }))
+
+    const requests = [getOrFetch('key', POLICY, fetcher), getOrFetch('key', POLICY, fetcher)]
+    await vi.waitFor(() => expect(fetcher).toHaveBeenCalled())
+    resolve(['shared'])
+
+    const results = await Promise.all(requests)
+    expect(results.map(result => result.data)).toEqual([['shared'], ['shared']])
+    expect(fetcher).toHaveBeenCalledTimes(1)
+  })
+
+  it('does not cache failures', async () => {
+    const fetcher = vi.fn()
+      .mockRejectedValueOnce(new Error('eBird is down'))
+      .mockResolvedValueOnce(['recovered'])
+
+    await expect(getOrFetch('key', POLICY, fetcher)).rejects.toThrow('eBird is down')
+    await expect(getOrFetch('key', POLICY, fetcher)).resolves.toMatchObject({ data: ['recovered'], status: 'MISS' })
+  })
+})
+
+describe('buildCacheKey', () => {
+  it('gives equivalent queries the same key', () => {
+    expect(buildCacheKey('/data/obs/US/recent/notable', { maxResults: '10', back: '7' }))
+      .toBe(buildCacheKey('/data/obs/US/recent/notable', { back: '7', maxResults: '10' }))
+    expect(buildCacheKey('/ref/taxonomy/ebird', {})).toBe('/ref/taxonomy/ebird')
+  })
+})
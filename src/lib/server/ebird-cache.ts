@@ -0,0 +1,191 @@
+import { EBirdEndpointId } from '@/lib/ebird-endpoints'
+
+/**
+ * A cached upstream response
+ * Timestamps are in milliseconds since the epoch
+ */
+export interface CacheEntry {
+  data: unknown
+  storedAt: number
+  expiresAt: number
+  staleUntil: number
+}
+
+/**
+ * Storage backend for cached responses
+ * Methods are async so file- or SQLite-backed stores can be dropped in
+ */
+export interface CacheStore {
+  get(key: string): Promise<CacheEntry | undefined>
+  set(key: string, entry: CacheEntry): Promise<void>
+  delete(key: string): Promise<void>
+}
+
+/**
+ * Freshness policy for an endpoint, in seconds
+ * `ttl` is how long an entry is fresh; `staleWhileRevalidate` is how long after that it may still be served while refreshing
+ */
+export interface CachePolicy {
+  ttl: number
+  staleWhileRevalidate: number
+}
+
+export type CacheStatus = 'HIT' | 'MISS' | 'STALE'
+
+const MINUTE = 60
+const HOUR = 60 * MINUTE
+const DAY = 24 * HOUR
+
+/**
+ * Per-endpoint cache policies
+ * Observation feeds change quickly; reference data such as taxonomy and regions barely changes
+ */
+export const CACHE_POLICIES = {
+  notableObservations: { ttl: 5 * MINUTE, staleWhileRevalidate: 15 * MINUTE },
+  nearbyNotableObservations: { ttl: 5 * MINUTE, staleWhileRevalidate: 15 * MINUTE },
+  recentObservations: { ttl: 10 * MINUTE, staleWhileRevalidate: 30 * MINUTE },
+  speciesObservations: { ttl: 10 * MINUTE, staleWhileRevalidate: 30 * MINUTE },
+  historicObservations: { ttl: HOUR, staleWhileRevalidate: DAY },
+  recentChecklists: { ttl: 5 * MINUTE, staleWhileRevalidate: 15 * MINUTE },
+  checklistView: { ttl: HOUR, staleWhileRevalidate: DAY },
+  nearbyHotspots: { ttl: DAY, staleWhileRevalidate: 7 * DAY },
+  regionHotspots: { ttl: DAY, staleWhileRevalidate: 7 * DAY },
+  hotspotInfo: { ttl: DAY, staleWhileRevalidate: 7 * DAY },
+  taxonomy: { ttl: 7 * DAY, staleWhileRevalidate: 30 * DAY },
+  regionInfo: { ttl: 30 * DAY, staleWhileRevalidate: 90 * DAY },
+  subRegionList: { ttl: 30 * DAY, staleWhileRevalidate: 90 * DAY },
+} satisfies Record<EBirdEndpointId, CachePolicy>
+
+/**
+ * In-memory cache store with a bounded number of entries
+ * Least recently used entries are evicted first
+ */
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, CacheEntry>()
+
+  constructor(private maxEntries = 500) {}
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const entry = this.entries.get(key)
+    if (!entry) return undefined
+
+    if (entry.staleUntil <= Date.now()) {
+      this.entries.delete(key)
+      return undefined
+    }
+
+    // Re-insert to mark as most recently used
+    this.entries.delete(key)
+    this.entries.set(key, entry)
+    return entry
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    this.entries.delete(key)
+    this.entries.set(key, entry)
+
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value
+      if (oldestKey === undefined) break
+      this.entries.delete(oldestKey)
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key)
+  }
+}
+
+// Keep the store and in-flight requests on globalThis so every route handler bundle shares them
+const globalForCache = globalThis as unknown as {
+  ebirdCacheStore?: CacheStore
+  ebirdCacheInFlight?: Map<string, Promise<unknown>>
+}
+globalForCache.ebirdCacheStore ??= new MemoryCacheStore()
+globalForCache.ebirdCacheInFlight ??= new Map<string, Promise<unknown>>()
+
+/**
+ * Replace the cache store, e.g. with a file- or SQLite-backed implementation
+ */
+export function setCacheStore(store: CacheStore) {
+  globalForCache.ebirdCacheStore = store
+}
+
+/**
+ * Get the active cache store
+ */
+export function getCacheStore(): CacheStore {
+  return globalForCache.ebirdCacheStore!
+}
+
+/**
+ * Build a cache key from an endpoint path and its query parameters
+ * Parameters are sorted so equivalent requests share an entry
+ */
+export function buildCacheKey(path: string, query: Record<string, string>): string {
+  const params = new URLSearchParams(
+    Object.entries(query).sort(([a], [b]) => a.localeCompare(b))
+  )
+  const queryString = params.toString()
+  return queryString ? `${path}?${queryString}` : path
+}
+
+/**
+ * Fetch a value and store it, sharing a single upstream request between concurrent callers
+ */
+async function fetchAndStore<T>(key: string, policy: CachePolicy, fetcher: () => Promise<T>): Promise<T> {
+  const inFlight = globalForCache.ebirdCacheInFlight!
+  const pending = inFlight.get(key)
+  if (pending) return pending as Promise<T>
+
+  const request = (async () => {
+    try {
+      const data = await fetcher()
+      const storedAt = Date.now()
+      await getCacheStore().set(key, {
+        data,
+        storedAt,
+        expiresAt: storedAt + policy.ttl * 1000,
+        staleUntil: storedAt + (policy.ttl + policy.staleWhileRevalidate) * 1000,
+      })
+      return data
+    } finally {
+      inFlight.delete(key)
+    }
+  })()
+
+  inFlight.set(key, request)
+  return request
+}
+
+/**
+ * Get a value from the cache, fetching it on a miss
+ * Stale entries are served immediately while a background request refreshes them
+ * Fetcher errors are not cached and propagate to the caller on a miss
+ * @param key - Cache key from buildCacheKey
+ * @param policy - Freshness policy for the endpoint
+ * @param fetcher - Function that fetches the value upstream
+ * @returns The value and whether it was a HIT, MISS or STALE
+ */
+export async function getOrFetch<T>(
+  key: string,
+  policy: CachePolicy,
+  fetcher: () => Promise<T>
+): Promise<{ data: T, status: CacheStatus, storedAt: number }> {
+  const entry = await getCacheStore().get(key)
+  const now = Date.now()
+
+  if (entry && entry.expiresAt > now) {
+    return { data: entry.data as T, status: 'HIT', storedAt: entry.storedAt }
+  }
+
+  if (entry && entry.staleUntil > now) {
+    fetchAndStore(key, policy, fetcher).catch(error => {
+      console.error('Cache revalidation failed:', key, error)
+    })
+    return { data: entry.data as T, status: 'STALE', storedAt: entry.storedAt }
+  }
+
+  const data = await fetchAndStore(key, policy, fetcher)
+  return { data, status: 'MISS', storedAt: Date.now() }
+}
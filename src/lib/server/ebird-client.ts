@@ -0,0 +1,25 @@
+import EBirdApiClient, { EBirdApiConfig } from '@/lib/ebird-api'
+import { createDirectTransport } from '@/lib/ebird-transport'
+
+/**
+ * Get the API key configured in the server environment, if any
+ */
+export function getServerApiKey(): string | undefined {
+  const apiKey = process.env.EBIRD_API_KEY?.trim()
+  if (!apiKey || apiKey === 'your_ebird_api_key_here') return undefined
+  return apiKey
+}
+
+/**
+ * Create an eBird API client for server-side use
+ * Calls eBird directly with header auth, using EBIRD_API_KEY unless another key is given
+ * @param config - Overrides such as a user's API key, a custom fetch or retry options
+ */
+export function createServerEbirdApi(config: EBirdApiConfig = {}): EBirdApiClient {
+  return new EBirdApiClient({
+    apiKey: getServerApiKey(),
+    transport: createDirectTransport({ baseUrl: config.baseUrl }),
+    ...config,
+    retry: { retries: 2, timeoutMs: 10_000, ...config.retry },
+  })
+}
@@ -0,0 +1,75 @@
+import nodemailer, { Transporter } from 'nodemailer'
+import { DigestEmail } from '@/lib/server/email-digest'
+
+/**
+ * SMTP settings read from the environment
+ */
+export interface SmtpConfig {
+  host: string
+  port: number
+  secure: boolean
+  user?: string
+  pass?: string
+  from: string
+}
+
+/**
+ * Read SMTP settings from SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASS and SMTP_FROM
+ * A local sink such as MailHog or smtp4dev only needs SMTP_HOST=localhost and SMTP_PORT=1025
+ * @returns The settings, or null when SMTP_HOST is not set and email is disabled
+ */
+export function getSmtpConfig(): SmtpConfig | null {
+  const host = process.env.SMTP_HOST?.trim()
+  if (!host) return null
+
+  const port = Number(process.env.SMTP_PORT) || 587
+  return {
+    host,
+    port,
+    // Port 465 speaks TLS from the start; other ports upgrade with STARTTLS when the server offers it
+    secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+    user: process.env.SMTP_USER?.trim() || undefined,
+    pass: process.env.SMTP_PASS || undefined,
+    from: process.env.SMTP_FROM?.trim() || 'eBird Rare Alerts <alerts@localhost>',
+  }
+}
+
+// Keep the transport on globalThis so its connection pool is shared across route handler bundles
+const globalForEmail = globalThis as unknown as {
+  smtpTransport?: Transporter
+}
+
+/**
+ * Get the shared SMTP transport
+ */
+function getTransport(config: SmtpConfig): Transporter {
+  globalForEmail.smtpTransport ??= nodemailer.createTransport({
+    host: config.host,
+    port: config.port,
+    secure: config.secure,
+    auth: config.user ? { user: config.user, pass: config.pass } : undefined,
+    pool: true,
+  })
+  return globalForEmail.smtpTransport
+}
+
+/**
+ * Send a rendered digest to a list of recipients
+ * Recipients are put in Bcc so they do not see each other's addresses
+ * @throws When SMTP is not configured or the server rejects the message
+ */
+export async function sendDigestEmail(recipients: string[], email: DigestEmail): Promise<void> {
+  const config = getSmtpConfig()
+  if (!config) {
+    throw new Error('Email delivery needs SMTP_HOST to be set on the server')
+  }
+
+  await getTransport(config).sendMail({
+    from: config.from,
+    to: config.from,
+    bcc: recipients,
+    subject: email.subject,
+    text: email.text,
+    html: email.html,
+  })
+}
@@ -0,0 +1,196 @@
+import { format } from 'date-fns'
+import { getMapboxToken } from '@/lib/tile-providers'
+import { getChecklistUrl, getMapUrl, parseObsDate } from '@/lib/utils'
+import { EBirdSighting } from '@/types/ebird'
+import { dedupeByObsId } from '@/lib/dedupe'
+
+/**
+ * Rendered email ready to hand to a mail transport
+ */
+export interface DigestEmail {
+  subject: string
+  html: string
+  text: string
+}
+
+/**
+ * Options for renderDigest
+ */
+export interface DigestOptions {
+  /** Heading and subject line */
+  title: string
+  /** Shown under the heading, e.g. the subscription's area */
+  intro?: string
+  /** Link back to the app, shown in the footer */
+  appUrl?: string
+}
+
+/**
+ * Reports of one species at one location
+ */
+interface DigestLocation {
+  locId: string
+  locName: string
+  lat: number
+  lng: number
+  sightings: EBirdSighting[]
+}
+
+/**
+ * All reports of one species, grouped by location
+ */
+interface DigestSpecies {
+  speciesCode: string
+  comName: string
+  sciName: string
+  locations: DigestLocation[]
+}
+
+const THUMBNAIL_SIZE = 120
+
+/**
+ * Escape text for use in HTML content and attributes
+ */
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+/**
+ * Static map image for a location, when MAPBOX_ACCESS_TOKEN is configured
+ * Without a token the digest links to the map without a thumbnail
+ */
+export function getMapThumbnailUrl(lat: number, lng: number): string | null {
+  const token = getMapboxToken()
+  if (!token) return null
+  const marker = `pin-s+dc2626(${lng},${lat})`
+  return `https://api.mapbox.com/styles/v1/mapbox/outdoors-v12/static/${marker}/${lng},${lat},11/${THUMBNAIL_SIZE}x${THUMBNAIL_SIZE}@2x?access_token=${encodeURIComponent(token)}`
+}
+
+/**
+ * Group sightings by species, then by location
+ * Species are sorted by name, locations and reports most recent first
+ */
+export function groupDigestSightings(sightings: EBirdSighting[]): DigestSpecies[] {
+  const species = new Map<string, DigestSpecies>()
+
+  dedupeByObsId(sightings).forEach(sighting => {
+    let entry = species.get(sighting.speciesCode)
+    if (!entry) {
+      entry = { speciesCode: sighting.speciesCode, comName: sighting.comName, sciName: sighting.sciName, locations: [] }
+      species.set(sighting.speciesCode, entry)
+    }
+
+    let location = entry.locations.find(existing => existing.locId === sighting.locId)
+    if (!location) {
+      location = { locId: sighting.locId, locName: sighting.locName, lat: sighting.lat, lng: sighting.lng, sightings: [] }
+      entry.locations.push(location)
+    }
+    location.sightings.push(sighting)
+  })
+
+  const byRecency = (a: EBirdSighting, b: EBirdSighting) => b.obsDt.localeCompare(a.obsDt)
+  const groups = Array.from(species.values())
+  groups.forEach(entry => {
+    entry.locations.forEach(location => location.sightings.sort(byRecency))
+    entry.locations.sort((a, b) => byRecency(a.sightings[0], b.sightings[0]))
+  })
+  return groups.sort((a, b) => a.comName.localeCompare(b.comName))
+}
+
+/**
+ * Describe one report, e.g. "Mar 4, 07:15 · 3 birds · Jane Doe · confirmed"
+ */
+function describeSighting(sighting: EBirdSighting): string {
+  const when = format(parseObsDate(sighting.obsDt), sighting.obsDt.length > 10 ? 'MMM d, HH:mm' : 'MMM d')
+  const parts = [when]
+  if (sighting.howMany !== undefined) parts.push(`${sighting.howMany} ${sighting.howMany === 1 ? 'bird' : 'birds'}`)
+  if (sighting.userDisplayName) parts.push(sighting.userDisplayName)
+  if (sighting.obsValid && sighting.obsReviewed) parts.push('confirmed')
+  return parts.join(' · ')
+}
+
+/**
+ * Plain-text body
+ */
+function renderText(groups: DigestSpecies[], options: DigestOptions): string {
+  const lines = [options.title, '='.repeat(options.title.length), '']
+  if (options.intro) lines.push(options.intro, '')
+
+  groups.forEach(species => {
+    lines.push(`${species.comName} (${species.sciName})`)
+    species.locations.forEach(location => {
+      lines.push(`  ${location.locName}`)
+      lines.push(`    Map: ${getMapUrl(location.lat, location.lng)}`)
+      location.sightings.forEach(sighting => {
+        lines.push(`    - ${describeSighting(sighting)}`)
+        lines.push(`      Checklist: ${getChecklistUrl(sighting.subId)}`)
+      })
+    })
+    lines.push('')
+  })
+
+  if (options.appUrl) lines.push(`Open eBird Rare Alerts: ${options.appUrl}`)
+  return lines.join('\n')
+}
+
+/**
+ * HTML body with inline styles, since most mail clients ignore style sheets
+ */
+function renderHtml(groups: DigestSpecies[], options: DigestOptions): string {
+  const speciesHtml = groups.map(species => {
+    const locationsHtml = species.locations.map(location => {
+      const mapUrl = escapeHtml(getMapUrl(location.lat, location.lng))
+      const thumbnailUrl = getMapThumbnailUrl(location.lat, location.lng)
+      const thumbnail = thumbnailUrl
+        ? `<a href="${mapUrl}"><img src="${escapeHtml(thumbnailUrl)}" width="${THUMBNAIL_SIZE}" height="${THUMBNAIL_SIZE}" alt="Map of ${escapeHtml(location.locName)}" style="display:block;border:0;border-radius:6px"></a>`
+        : ''
+      const reports = location.sightings.map(sighting =>
+        `<li style="margin:2px 0">${escapeHtml(describeSighting(sighting))} · <a href="${escapeHtml(getChecklistUrl(sighting.subId))}" style="color:#2563eb">checklist</a></li>`
+      ).join('')
+
+      return `<tr>
+        ${thumbnail ? `<td style="padding:8px 12px 8px 0;vertical-align:top;width:${THUMBNAIL_SIZE}px">${thumbnail}</td>` : ''}
+        <td style="padding:8px 0;vertical-align:top">
+          <div style="font-weight:600">${escapeHtml(location.locName)}</div>
+          <a href="${mapUrl}" style="color:#2563eb;font-size:12px">View on map</a>
+          <ul style="margin:4px 0 0;padding-left:18px;font-size:13px">${reports}</ul>
+        </td>
+      </tr>`
+    }).join('')
+
+    return `<h2 style="margin:24px 0 0;font-size:16px">${escapeHtml(species.comName)}
+      <span style="font-weight:normal;font-style:italic;color:#6b7280">${escapeHtml(species.sciName)}</span></h2>
+      <table role="presentation" cellpadding="0" cellspacing="0" style="border-collapse:collapse;width:100%">${locationsHtml}</table>`
+  }).join('')
+
+  return `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><title>${escapeHtml(options.title)}</title></head>
+<body style="margin:0;padding:24px;background:#f9fafb;font-family:-apple-system,Segoe UI,Roboto,Helvetica,Arial,sans-serif;color:#111827">
+  <div style="max-width:640px;margin:0 auto;background:#ffffff;border-radius:8px;padding:24px">
+    <h1 style="margin:0;font-size:20px">${escapeHtml(options.title)}</h1>
+    ${options.intro ? `<p style="margin:8px 0 0;color:#6b7280">${escapeHtml(options.intro)}</p>` : ''}
+    ${speciesHtml}
+    ${options.appUrl ? `<p style="margin:24px 0 0;font-size:12px"><a href="${escapeHtml(options.appUrl)}" style="color:#2563eb">Open eBird Rare Alerts</a></p>` : ''}
+  </div>
+</body>
+</html>`
+}
+
+/**
+ * Render new notable sightings as an HTML and plain-text email
+ * Sightings are grouped by species, then location, with checklist and map links for each
+ */
+export function renderDigest(sightings: EBirdSighting[], options: DigestOptions): DigestEmail {
+  const groups = groupDigestSightings(sightings)
+  return {
+    subject: options.title,
+    html: renderHtml(groups, options),
+    text: renderText(groups, options),
+  }
+}
@@ -0,0 +1,58 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import { TokenBucketLimiter, checkProxyRateLimit, getCallerId } from '@/lib/server/rate-limiter'
+import { SESSION_COOKIE_NAME } from '@/lib/server/api-key-session'
+
+/**
+ * Proxy request with the given headers
+ */
+function proxyRequest(headers: Record<string, string> = {}) {
+  return new NextRequest('https://rare-alerts.test/api/ebird?endpoint=/data/obs/US/recent/notable', { headers })
+}
+
+describe('TokenBucketLimiter', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('allows a burst up to capacity, then refills over time', () => {
+    vi.useFakeTimers()
+    const limiter = new TokenBucketLimiter(2, 1)
+
+    expect(limiter.take('a').allowed).toBe(true)
+    expect(limiter.take('a').allowed).toBe(true)
+    expect(limiter.take('a')).toEqual({ allowed: false, remaining: 0, retryAfterSeconds: 1 })
+    expect(limiter.take('b').allowed).toBe(true)
+
+    vi.advanceTimersByTime(1000)
+    expect(limiter.take('a').allowed).toBe(true)
+  })
+})
+
+describe('getCallerId', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('ignores forwarding headers unless TRUST_PROXY is set', () => {
+    expect(getCallerId(proxyRequest({ 'x-forwarded-for': '203.0.113.7' }))).toBe('ip:unknown')
+
+    vi.stubEnv('TRUST_PROXY', 'true')
+    expect(getCallerId(proxyRequest({ 'x-forwarded-for': '203.0.113.7, 10.0.0.1' }))).toBe('ip:203.0.113.7')
+    expect(getCallerId(proxyRequest({ 'x-real-ip': '198.51.100.2' }))).toBe('ip:198.51.100.2')
+  })
+
+  it('does not give an unknown session cookie its own bucket', () => {
+    expect(getCallerId(proxyRequest({ cookie: `${SESSION_COOKIE_NAME}=made-up` }))).toBe('ip:unknown')
+  })
+})
+
+describe('checkProxyRateLimit', () => {
+  it('still limits a caller that sends a new X-Forwarded-For on every request', () => {
+    const results = Array.from({ length: 40 }, (_, i) =>
+      checkProxyRateLimit(proxyRequest({ 'x-forwarded-for': `203.0.113.${i}` }))
+    )
+
+    expect(results.some(result => !result.allowed)).toBe(true)
+  })
+})
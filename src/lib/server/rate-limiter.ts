@@ -0,0 +1,117 @@
+import { NextRequest } from 'next/server'
+import { SESSION_COOKIE_NAME, getApiKeySession } from '@/lib/server/api-key-session'
+
+/**
+ * Result of taking a token from a bucket
+ */
+export interface RateLimitResult {
+  allowed: boolean
+  remaining: number
+  retryAfterSeconds: number
+}
+
+interface Bucket {
+  tokens: number
+  updatedAt: number
+}
+
+/**
+ * Token-bucket rate limiter keyed by caller
+ * Each caller may burst up to `capacity` requests, refilled at `refillPerSecond`
+ */
+export class TokenBucketLimiter {
+  private buckets = new Map<string, Bucket>()
+
+  constructor(
+    private capacity: number,
+    private refillPerSecond: number,
+    private maxBuckets = 10_000
+  ) {}
+
+  /**
+   * Take one token for a caller
+   */
+  take(key: string): RateLimitResult {
+    const now = Date.now()
+    const bucket = this.buckets.get(key) ?? { tokens: this.capacity, updatedAt: now }
+
+    const elapsedSeconds = (now - bucket.updatedAt) / 1000
+    bucket.tokens = Math.min(this.capacity, bucket.tokens + elapsedSeconds * this.refillPerSecond)
+    bucket.updatedAt = now
+
+    // Re-insert so idle callers are evicted first
+    this.buckets.delete(key)
+    this.buckets.set(key, bucket)
+    this.evictIdle()
+
+    if (bucket.tokens < 1) {
+      return {
+        allowed: false,
+        remaining: 0,
+        retryAfterSeconds: Math.ceil((1 - bucket.tokens) / this.refillPerSecond),
+      }
+    }
+
+    bucket.tokens -= 1
+    return { allowed: true, remaining: Math.floor(bucket.tokens), retryAfterSeconds: 0 }
+  }
+
+  private evictIdle() {
+    while (this.buckets.size > this.maxBuckets) {
+      const oldestKey = this.buckets.keys().next().value
+      if (oldestKey === undefined) break
+      this.buckets.delete(oldestKey)
+    }
+  }
+}
+
+const DEFAULT_BURST = 30
+const DEFAULT_PER_MINUTE = 60
+
+/**
+ * Read a positive number from the environment, falling back to a default
+ */
+function readPositiveNumber(value: string | undefined, fallback: number): number {
+  const parsed = Number(value)
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback
+}
+
+// Keep the limiter on globalThis so every route handler bundle shares it
+const globalForLimiter = globalThis as unknown as { ebirdProxyLimiter?: TokenBucketLimiter }
+globalForLimiter.ebirdProxyLimiter ??= new TokenBucketLimiter(
+  readPositiveNumber(process.env.PROXY_RATE_LIMIT_BURST, DEFAULT_BURST),
+  readPositiveNumber(process.env.PROXY_RATE_LIMIT_PER_MINUTE, DEFAULT_PER_MINUTE) / 60
+)
+
+/**
+ * Whether a known reverse proxy sets X-Forwarded-For / X-Real-IP, from TRUST_PROXY
+ */
+function trustsProxyHeaders(): boolean {
+  return process.env.TRUST_PROXY?.trim().toLowerCase() === 'true'
+}
+
+/**
+ * Identify the caller of a proxy request
+ * Uses the API key session when it exists, otherwise the client IP
+ * Cookie and header values are chosen by the client, so an unknown one must not get its own bucket;
+ * forwarding headers are only read behind a trusted proxy, and callers without a known address share one bucket
+ */
+export function getCallerId(request: NextRequest): string {
+  const sessionId = request.cookies.get(SESSION_COOKIE_NAME)?.value
+  if (sessionId && getApiKeySession(sessionId)) return `session:${sessionId}`
+
+  if (trustsProxyHeaders()) {
+    const forwardedFor = request.headers.get('x-forwarded-for')?.split(',')[0]?.trim()
+    const realIp = request.headers.get('x-real-ip')?.trim()
+    if (forwardedFor || realIp) return `ip:${forwardedFor || realIp}`
+  }
+
+  return `ip:${request.ip || 'unknown'}`
+}
+
+/**
+ * Take a token from the proxy limiter for this request's caller
+ */
+export function checkProxyRateLimit(request: NextRequest): RateLimitResult {
+  return globalForLimiter.ebirdProxyLimiter!.take(getCallerId(request))
+}
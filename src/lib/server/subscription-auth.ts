@@ -0,0 +1,32 @@
+import { timingSafeEqual } from 'crypto'
+import { NextRequest, NextResponse } from 'next/server'
+
+/**
+ * Get the token that guards the subscription API, from ALERT_SUBSCRIPTIONS_TOKEN
+ * Subscriptions are disabled when it is not set
+ */
+export function getSubscriptionsToken(): string | undefined {
+  return process.env.ALERT_SUBSCRIPTIONS_TOKEN?.trim() || undefined
+}
+
+/**
+ * Check the bearer token on a subscription API request
+ * Subscriptions hold webhook URLs, which are secrets, so every route requires the token
+ * @returns An error response to send back, or null when the request may proceed
+ */
+export function authorizeSubscriptionRequest(request: NextRequest): NextResponse | null {
+  const token = getSubscriptionsToken()
+  if (!token) {
+    return NextResponse.json({ error: 'Alert subscriptions are not enabled on this server' }, { status: 404 })
+  }
+
+  const header = request.headers.get('Authorization') ?? ''
+  const supplied = header.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : ''
+  const expected = Buffer.from(token)
+  const actual = Buffer.from(supplied)
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return NextResponse.json({ error: 'Invalid or missing subscription token' }, { status: 401 })
+  }
+
+  return null
+}
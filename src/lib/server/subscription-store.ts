@@ -0,0 +1,175 @@
+import { mkdir, readFile, rename, writeFile } from 'fs/promises'
+import path from 'path'
+import { AlertSubscription } from '@/types/ebird'
+
+/**
+ * Storage backend for alert subscriptions and the observations already delivered for each
+ * Seen-sets are keyed by subscription id, or `<id>:<channel>` when channels track delivery separately
+ * Methods are async so a database-backed store can be dropped in
+ */
+export interface SubscriptionStore {
+  list(): Promise<AlertSubscription[]>
+  get(id: string): Promise<AlertSubscription | undefined>
+  save(subscription: AlertSubscription): Promise<void>
+  delete(id: string): Promise<boolean>
+  getSeenObsIds(key: string): Promise<Set<string>>
+  addSeenObsIds(key: string, obsIds: string[]): Promise<void>
+}
+
+/**
+ * Shape of the subscriptions file
+ * `seen` maps a seen-set key to obsId to the time (ms) it was first seen
+ */
+interface SubscriptionFile {
+  version: 1
+  subscriptions: AlertSubscription[]
+  seen: Record<string, Record<string, number>>
+}
+
+// eBird looks back at most 30 days, so older observations can never come back
+const SEEN_RETENTION_MS = 31 * 24 * 60 * 60 * 1000
+
+/**
+ * Fill in fields added since a subscription was saved
+ * Subscriptions from before email digests have no recipients and email instantly once some are added
+ * Older files have no seededAt; a subscription counts as seeded once it delivered or last ran cleanly
+ */
+function normalizeSubscription(subscription: AlertSubscription): AlertSubscription {
+  return {
+    ...subscription,
+    emailRecipients: subscription.emailRecipients ?? [],
+    emailDigest: subscription.emailDigest ?? 'instant',
+    seededAt: subscription.seededAt
+      ?? subscription.lastDeliveredAt
+      ?? (subscription.lastError ? undefined : subscription.lastRunAt),
+  }
+}
+
+/**
+ * Subscription store persisted to a JSON file
+ * The file is read once and rewritten after every change; writes go through a temporary file
+ * so a crash mid-write never leaves a truncated store behind
+ */
+export class FileSubscriptionStore implements SubscriptionStore {
+  private data?: Promise<SubscriptionFile>
+  private writing: Promise<void> = Promise.resolve()
+
+  constructor(private filePath: string) {}
+
+  async list(): Promise<AlertSubscription[]> {
+    const data = await this.load()
+    return [...data.subscriptions]
+  }
+
+  async get(id: string): Promise<AlertSubscription | undefined> {
+    const data = await this.load()
+    return data.subscriptions.find(subscription => subscription.id === id)
+  }
+
+  async save(subscription: AlertSubscription): Promise<void> {
+    const data = await this.load()
+    const index = data.subscriptions.findIndex(existing => existing.id === subscription.id)
+    if (index >= 0) {
+      data.subscriptions[index] = subscription
+    } else {
+      data.subscriptions.push(subscription)
+    }
+    await this.persist(data)
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const data = await this.load()
+    const index = data.subscriptions.findIndex(subscription => subscription.id === id)
+    if (index < 0) return false
+
+    data.subscriptions.splice(index, 1)
+    Object.keys(data.seen).forEach(key => {
+      if (key === id || key.startsWith(`${id}:`)) delete data.seen[key]
+    })
+    await this.persist(data)
+    return true
+  }
+
+  async getSeenObsIds(key: string): Promise<Set<string>> {
+    const data = await this.load()
+    return new Set(Object.keys(data.seen[key] ?? {}))
+  }
+
+  async addSeenObsIds(key: string, obsIds: string[]): Promise<void> {
+    const data = await this.load()
+    const now = Date.now()
+    const seen = data.seen[key] ?? {}
+    obsIds.forEach(obsId => {
+      seen[obsId] ??= now
+    })
+
+    // Drop observations too old to show up in a notable feed again
+    Object.entries(seen).forEach(([obsId, seenAt]) => {
+      if (now - seenAt > SEEN_RETENTION_MS) delete seen[obsId]
+    })
+    data.seen[key] = seen
+    await this.persist(data)
+  }
+
+  /**
+   * Read the file on first use; a missing file is an empty store
+   */
+  private load(): Promise<SubscriptionFile> {
+    this.data ??= readFile(this.filePath, 'utf8')
+      .then(text => {
+        const data = JSON.parse(text) as SubscriptionFile
+        return { ...data, subscriptions: data.subscriptions.map(normalizeSubscription) }
+      })
+      .catch((error: NodeJS.ErrnoException) => {
+        if (error.code === 'ENOENT') {
+          return { version: 1 as const, subscriptions: [], seen: {} }
+        }
+        // Forget the failed read so the next call tries again
+        this.data = undefined
+        throw error
+      })
+    return this.data
+  }
+
+  /**
+   * Write the store, one write at a time
+   */
+  private persist(data: SubscriptionFile): Promise<void> {
+    const write = this.writing.then(async () => {
+      await mkdir(path.dirname(this.filePath), { recursive: true })
+      const tempPath = `${this.filePath}.tmp`
+      await writeFile(tempPath, JSON.stringify(data, null, 2), 'utf8')
+      await rename(tempPath, this.filePath)
+    })
+    // A failed write should not block later ones
+    this.writing = write.catch(() => undefined)
+    return write
+  }
+}
+
+/**
+ * Location of the subscriptions file, from ALERT_SUBSCRIPTIONS_FILE or under .data in the project
+ */
+function getSubscriptionsFilePath(): string {
+  return process.env.ALERT_SUBSCRIPTIONS_FILE?.trim() || path.join(process.cwd(), '.data', 'alert-subscriptions.json')
+}
+
+// Keep the store on globalThis so every route handler bundle and the scheduler share it
+const globalForSubscriptions = globalThis as unknown as {
+  alertSubscriptionStore?: SubscriptionStore
+}
+
+/**
+ * Replace the subscription store, e.g. with a database-backed implementation
+ */
+export function setSubscriptionStore(store: SubscriptionStore) {
+  globalForSubscriptions.alertSubscriptionStore = store
+}
+
+/**
+ * Get the active subscription store
+ */
+export function getSubscriptionStore(): SubscriptionStore {
+  globalForSubscriptions.alertSubscriptionStore ??= new FileSubscriptionStore(getSubscriptionsFilePath())
+  return globalForSubscriptions.alertSubscriptionStore
+}
@@ -0,0 +1,174 @@
+import { fetchWithRetry } from '@/lib/fetch-with-retry'
+import { getChecklistUrl } from '@/lib/utils'
+import { AlertSubscription, EBirdSighting, WebhookFormat } from '@/types/ebird'
+
+/**
+ * One sighting in the JSON webhook payload
+ */
+export interface WebhookSighting {
+  obsId: string
+  speciesCode: string
+  comName: string
+  sciName: string
+  howMany?: number
+  obsDt: string
+  locId: string
+  locName: string
+  lat: number
+  lng: number
+  confirmed: boolean
+  subId: string
+  checklistUrl: string
+}
+
+/**
+ * Body posted for the `json` webhook format
+ */
+export interface WebhookPayload {
+  subscription: { id: string, name: string }
+  generatedAt: string
+  sightings: WebhookSighting[]
+}
+
+/**
+ * The webhook did not accept a delivery after all retries
+ */
+export class WebhookDeliveryError extends Error {
+  readonly status?: number
+
+  constructor(message: string, status?: number) {
+    super(message)
+    this.name = 'WebhookDeliveryError'
+    this.status = status
+    // Keep instanceof working when compiled to ES5
+    Object.setPrototypeOf(this, WebhookDeliveryError.prototype)
+  }
+}
+
+// Discord allows 10 embeds and 2000 characters of content per message
+const DISCORD_MAX_EMBEDS = 10
+const SLACK_MAX_LINES = 40
+
+/**
+ * Build the JSON payload for new sightings
+ */
+export function buildWebhookPayload(subscription: AlertSubscription, sightings: EBirdSighting[]): WebhookPayload {
+  return {
+    subscription: { id: subscription.id, name: subscription.name },
+    generatedAt: new Date().toISOString(),
+    sightings: sightings.map(sighting => ({
+      obsId: sighting.obsId,
+      speciesCode: sighting.speciesCode,
+      comName: sighting.comName,
+      sciName: sighting.sciName,
+      howMany: sighting.howMany,
+      obsDt: sighting.obsDt,
+      locId: sighting.locId,
+      locName: sighting.locName,
+      lat: sighting.lat,
+      lng: sighting.lng,
+      confirmed: sighting.obsValid && sighting.obsReviewed,
+      subId: sighting.subId,
+      checklistUrl: getChecklistUrl(sighting.subId),
+    })),
+  }
+}
+
+/**
+ * One-line headline shared by the chat formats
+ */
+function headline(payload: WebhookPayload): string {
+  const count = payload.sightings.length
+  return `${count} new notable ${count === 1 ? 'sighting' : 'sightings'} for ${payload.subscription.name}`
+}
+
+/**
+ * Escape the characters Slack treats as control characters in mrkdwn
+ * The link label ends at the first `>`, so an unescaped one in a location name would cut the link short
+ */
+function escapeSlack(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+}
+
+/**
+ * Slack incoming webhook message, one mrkdwn line per sighting
+ */
+function toSlackMessage(payload: WebhookPayload) {
+  const lines = payload.sightings.slice(0, SLACK_MAX_LINES).map(sighting =>
+    `• *${escapeSlack(sighting.comName)}*${sighting.howMany ? ` (${sighting.howMany})` : ''} at <${sighting.checklistUrl}|${escapeSlack(sighting.locName)}>, ${sighting.obsDt}`
+  )
+  const hidden = payload.sightings.length - lines.length
+  if (hidden > 0) lines.push(`…and ${hidden} more`)
+
+  return {
+    text: escapeSlack(headline(payload)),
+    blocks: [
+      { type: 'section', text: { type: 'mrkdwn', text: `*${escapeSlack(headline(payload))}*` } },
+      { type: 'section', text: { type: 'mrkdwn', text: lines.join('\n') } },
+    ],
+  }
+}
+
+/**
+ * Discord webhook message with one embed per sighting
+ */
+function toDiscordMessage(payload: WebhookPayload) {
+  const embeds = payload.sightings.slice(0, DISCORD_MAX_EMBEDS).map(sighting => ({
+    title: sighting.howMany ? `${sighting.comName} (${sighting.howMany})` : sighting.comName,
+    url: sighting.checklistUrl,
+    description: `${sighting.locName}\n${sighting.obsDt}${sighting.confirmed ? ' · confirmed' : ''}`,
+  }))
+  const hidden = payload.sightings.length - embeds.length
+
+  return {
+    content: hidden > 0 ? `${headline(payload)} (showing ${embeds.length})` : headline(payload),
+    embeds,
+  }
+}
+
+/**
+ * Build the request body for a webhook format
+ */
+export function formatWebhookBody(format: WebhookFormat, payload: WebhookPayload): unknown {
+  switch (format) {
+    case 'slack':
+      return toSlackMessage(payload)
+    case 'discord':
+      return toDiscordMessage(payload)
+    default:
+      return payload
+  }
+}
+
+/**
+ * POST new sightings to a subscription's webhook, if it has one
+ * 429 and 5xx responses and timeouts are retried with backoff
+ * @throws WebhookDeliveryError when the webhook still fails after retries
+ */
+export async function deliverWebhook(subscription: AlertSubscription, sightings: EBirdSighting[]): Promise<void> {
+  if (!subscription.webhookUrl) return
+  const body = formatWebhookBody(subscription.webhookFormat, buildWebhookPayload(subscription, sightings))
+
+  let response: Response
+  try {
+    response = await fetchWithRetry(
+      subscription.webhookUrl,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      },
+      { retries: 3, timeoutMs: 10_000 }
+    )
+  } catch (error) {
+    throw new WebhookDeliveryError(`Webhook request failed: ${error instanceof Error ? error.message : String(error)}`)
+  }
+
+  if (!response.ok) {
+    await response.body?.cancel().catch(() => undefined)
+    throw new WebhookDeliveryError(`Webhook responded with ${response.status}`, response.status)
+  }
+}
@@ -0,0 +1,202 @@
+import { getChecklistUrl } from '@/lib/utils'
+import { EBirdSighting } from '@/types/ebird'
+
+/**
+ * File formats sightings can be exported to
+ */
+export type ExportFormat = 'csv' | 'geojson' | 'kml' | 'gpx'
+
+/**
+ * Display name, file extension and MIME type of each export format
+ */
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string, extension: string, mimeType: string, description: string }> = {
+  csv: { label: 'CSV', extension: 'csv', mimeType: 'text/csv', description: 'Spreadsheet with every field' },
+  geojson: { label: 'GeoJSON', extension: 'geojson', mimeType: 'application/geo+json', description: 'For GIS tools' },
+  kml: { label: 'KML', extension: 'kml', mimeType: 'application/vnd.google-earth.kml+xml', description: 'Google Earth and My Maps' },
+  gpx: { label: 'GPX', extension: 'gpx', mimeType: 'application/gpx+xml', description: 'Waypoints for GPS and phone apps' },
+}
+
+/**
+ * Every EBirdSighting field in CSV column order
+ * Typed as a record so a field added to EBirdSighting must be added here too
+ */
+const CSV_FIELDS: Record<keyof EBirdSighting, true> = {
+  obsId: true,
+  speciesCode: true,
+  comName: true,
+  sciName: true,
+  howMany: true,
+  presenceNoted: true,
+  obsDt: true,
+  obsValid: true,
+  obsReviewed: true,
+  locId: true,
+  locID: true,
+  locName: true,
+  locationPrivate: true,
+  lat: true,
+  lng: true,
+  subnational2Code: true,
+  subnational2Name: true,
+  subnational1Code: true,
+  subnational1Name: true,
+  countryCode: true,
+  countryName: true,
+  subId: true,
+  checklistId: true,
+  userDisplayName: true,
+  firstName: true,
+  lastName: true,
+  hasComments: true,
+  hasRichMedia: true,
+}
+const CSV_COLUMNS = Object.keys(CSV_FIELDS) as (keyof EBirdSighting)[]
+
+/**
+ * Quote a CSV value when it contains a delimiter, quote or line break
+ * Text starting with = + - @ or a tab gets a leading ' so spreadsheets do not run it as a formula
+ * (also when it already starts with ', so the import can always remove exactly one);
+ * numbers are written as they are so negative coordinates stay numeric
+ */
+function csvValue(value: unknown): string {
+  if (value === undefined || value === null) return ''
+  const text = typeof value === 'string' && /^'*[=+\-@\t\r]/.test(value) ? `'${value}` : String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Escape text for XML content and attributes
+ */
+function xmlEscape(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+/**
+ * Placemark and waypoint title, e.g. "Snowy Owl (2)"
+ */
+function sightingTitle(sighting: EBirdSighting): string {
+  return sighting.howMany !== undefined ? `${sighting.comName} (${sighting.howMany})` : sighting.comName
+}
+
+/**
+ * Placemark and waypoint description lines
+ */
+function sightingDescription(sighting: EBirdSighting): string[] {
+  return [
+    sighting.sciName,
+    `${sighting.locName}, ${sighting.obsDt}`,
+    `Observer: ${sighting.userDisplayName}`,
+    `Checklist: ${getChecklistUrl(sighting.subId)}`,
+  ]
+}
+
+/**
+ * CSV with a header row and one row per sighting, covering every EBirdSighting field
+ */
+export function toCsv(sightings: EBirdSighting[]): string {
+  const rows = sightings.map(sighting => CSV_COLUMNS.map(column => csvValue(sighting[column])).join(','))
+  // CRLF line endings, as RFC 4180 specifies and spreadsheet apps expect
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n'
+}
+
+/**
+ * GeoJSON FeatureCollection with a Point per sighting and the sighting fields as properties
+ * `capturedAt` records when the data was exported, so an import can show how old it is
+ */
+export function toGeoJson(sightings: EBirdSighting[]): string {
+  return JSON.stringify({
+    type: 'FeatureCollection',
+    capturedAt: new Date().toISOString(),
+    features: sightings.map(sighting => ({
+      type: 'Feature',
+      id: sighting.obsId,
+      geometry: { type: 'Point', coordinates: [sighting.lng, sighting.lat] },
+      properties: { ...sighting, checklistUrl: getChecklistUrl(sighting.subId) },
+    })),
+  }, null, 2)
+}
+
+/**
+ * KML document with a placemark per sighting
+ */
+export function toKml(sightings: EBirdSighting[], name: string): string {
+  const placemarks = sightings.map(sighting => `    <Placemark id="${xmlEscape(sighting.obsId)}">
+      <name>${xmlEscape(sightingTitle(sighting))}</name>
+      <description>${xmlEscape(sightingDescription(sighting).join('\n'))}</description>
+      <Point><coordinates>${sighting.lng},${sighting.lat},0</coordinates></Point>
+    </Placemark>`)
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+  <Document>
+    <name>${xmlEscape(name)}</name>
+${placemarks.join('\n')}
+  </Document>
+</kml>
+`
+}
+
+/**
+ * GPX 1.1 file with a waypoint per sighting
+ * obsDt has no time zone, so it goes in the description rather than the UTC <time> element
+ */
+export function toGpx(sightings: EBirdSighting[], name: string): string {
+  const waypoints = sightings.map(sighting => `  <wpt lat="${sighting.lat}" lon="${sighting.lng}">
+    <name>${xmlEscape(sightingTitle(sighting))}</name>
+    <desc>${xmlEscape(sightingDescription(sighting).join('\n'))}</desc>
+    <link href="${xmlEscape(getChecklistUrl(sighting.subId))}"><text>eBird checklist</text></link>
+    <sym>Flag</sym>
+  </wpt>`)
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="eBird Rare Alerts" xmlns="http://www.topografix.com/GPX/1/1">
+  <metadata><name>${xmlEscape(name)}</name></metadata>
+${waypoints.join('\n')}
+</gpx>
+`
+}
+
+/**
+ * Earliest and latest observation day ("yyyy-MM-dd") in a set of sightings
+ */
+export function getObservationDateRange(sightings: EBirdSighting[]): { from: string, to: string } | null {
+  if (sightings.length === 0) return null
+  const days = sightings.map(sighting => sighting.obsDt.slice(0, 10)).sort()
+  return { from: days[0], to: days[days.length - 1] }
+}
+
+/**
+ * Build an export filename such as "ebird-rare-alerts_US-NY_2024-03-01_2024-03-14.csv"
+ * @param areaLabel - Region code, or a label for the searched point in nearby mode
+ * @param sightings - Exported sightings, which set the date range
+ * @param format - Export format, which sets the extension
+ */
+export function buildExportFilename(areaLabel: string, sightings: EBirdSighting[], format: ExportFormat): string {
+  const range = getObservationDateRange(sightings)
+  const area = areaLabel.replace(/[^A-Za-z0-9.-]+/g, '_')
+  const parts = ['ebird-rare-alerts', area]
+  if (range) parts.push(range.from === range.to ? range.from : `${range.from}_${range.to}`)
+  return `${parts.join('_')}.${EXPORT_FORMATS[format].extension}`
+}
+
+/**
+ * Serialize sightings in an export format
+ * @param name - Document name for KML and GPX
+ */
+export function serializeSightings(format: ExportFormat, sightings: EBirdSighting[], name: string): string {
+  switch (format) {
+    case 'csv':
+      return toCsv(sightings)
+    case 'geojson':
+      return toGeoJson(sightings)
+    case 'kml':
+      return toKml(sightings, name)
+    case 'gpx':
+      return toGpx(sightings, name)
+  }
+}
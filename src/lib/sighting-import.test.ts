@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest'
+import { parseCsv, parseDataset } from '@/lib/sighting-import'
+import { toCsv, toGeoJson } from '@/lib/sighting-export'
+import { EBirdSighting } from '@/types/ebird'
+
+const counted: EBirdSighting = {
+  speciesCode: 'libher',
+  comName: 'Little Blue Heron',
+  sciName: 'Egretta caerulea',
+  locId: 'L123456',
+  locName: 'Pond, "north" side, Ithaca',
+  obsDt: '2024-05-01 07:30',
+  howMany: 2,
+  lat: 42.4534,
+  lng: -76.4735,
+  obsValid: true,
+  obsReviewed: false,
+  locationPrivate: false,
+  subnational2Code: 'US-NY-109',
+  subnational2Name: 'Tompkins',
+  subnational1Code: 'US-NY',
+  subnational1Name: 'New York',
+  countryCode: 'US',
+  countryName: 'United States',
+  userDisplayName: 'Pat Birder',
+  subId: 'S100000001',
+  obsId: 'OBS100000001',
+  checklistId: 'CL10001',
+  presenceNoted: false,
+  hasComments: true,
+  firstName: 'Pat',
+  lastName: 'Birder',
+  hasRichMedia: false,
+  locID: 'L123456',
+}
+
+// Presence-only report: eBird leaves howMany out when the observer marked an X
+const presenceOnly: EBirdSighting = {
+  ...counted,
+  speciesCode: 'whiibi',
+  comName: 'White Ibis',
+  sciName: 'Eudocimus albus',
+  obsDt: '2024-05-02',
+  howMany: undefined,
+  presenceNoted: true,
+  subId: 'S100000002',
+  obsId: 'OBS100000002',
+}
+
+describe('parseDataset', () => {
+  it('re-imports an exported CSV, including presence-only rows with an empty count', () => {
+    const csv = toCsv([counted, presenceOnly])
+    const header = parseCsv(csv)[0]
+    expect(parseCsv(csv)[2][header.indexOf('howMany')]).toBe('')
+
+    const dataset = parseDataset('export.csv', csv, Date.now())
+
+    expect(dataset.format).toBe('csv')
+    expect(dataset.issues).toEqual([])
+    expect(dataset.sightings).toEqual([counted, { ...presenceOnly, howMany: undefined }])
+  })
+
+  it('guards cells a spreadsheet would run as formulas and restores them on import', () => {
+    const formulas: EBirdSighting = {
+      ...counted,
+      comName: '=HYPERLINK("https://example.com")',
+      locName: '+1 Pond',
+      userDisplayName: "'@birder",
+    }
+    const csv = toCsv([formulas])
+    const row = parseCsv(csv)[1]
+    const header = parseCsv(csv)[0]
+
+    expect(row[header.indexOf('comName')]).toBe('\'=HYPERLINK("https://example.com")')
+    expect(row[header.indexOf('locName')]).toBe("'+1 Pond")
+    expect(row[header.indexOf('lng')]).toBe('-76.4735')
+    expect(parseDataset('export.csv', csv, 0).sightings).toEqual([formulas])
+  })
+
+  it('re-imports an exported GeoJSON file with its capture date', () => {
+    const dataset = parseDataset('export.geojson', toGeoJson([counted, presenceOnly]), 0)
+
+    expect(dataset.issues).toEqual([])
+    expect(dataset.sightings.map(sighting => sighting.howMany)).toEqual([2, undefined])
+    expect(new Date(dataset.capturedAt).getTime()).toBeGreaterThan(0)
+  })
+
+  it('reads a null count as missing', () => {
+    const dataset = parseDataset('notable.json', JSON.stringify([{ ...counted, howMany: null }]), 0)
+
+    expect(dataset.issues).toEqual([])
+    expect(dataset.sightings[0].howMany).toBeUndefined()
+  })
+
+  it('keeps valid rows and reports malformed ones', () => {
+    const rows = parseCsv(toCsv([counted, presenceOnly]))
+    const header = rows[0]
+    rows[2][header.indexOf('howMany')] = 'several'
+    const csv = rows.map(row => row.map(cell => `"${cell.replace(/"/g, '""')}"`).join(',')).join('\r\n')
+
+    const dataset = parseDataset('export.csv', csv, 0)
+
+    expect(dataset.sightings).toHaveLength(1)
+    expect(dataset.issues).toEqual([{ row: 3, field: 'howMany', message: 'Must be a number' }])
+  })
+})
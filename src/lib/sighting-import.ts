@@ -0,0 +1,226 @@
+import { z } from 'zod'
+import { DatasetIssue, EBirdSighting, OfflineDataset } from '@/types/ebird'
+
+/**
+ * Largest file accepted for import
+ */
+export const MAX_IMPORT_BYTES = 20 * 1024 * 1024
+
+/**
+ * Most issues listed for one file; the rest are only counted
+ */
+const MAX_REPORTED_ISSUES = 100
+
+// CSV cells are always strings, so values are coerced; an empty cell counts as missing
+const emptyToUndefined = (value: unknown) => value === '' || value === null ? undefined : value
+
+const textField = z.preprocess(emptyToUndefined, z.string())
+const optionalText = z.preprocess(emptyToUndefined, z.string().optional())
+const toNumberOrUndefined = (value: unknown) =>
+  typeof value === 'string' && value.trim() !== '' ? Number(value) : emptyToUndefined(value)
+const numberField = z.preprocess(toNumberOrUndefined, z.number({ invalid_type_error: 'Must be a number' }).finite())
+// Optional inside the preprocess: .optional() outside it only accepts undefined, not an empty cell or null
+const optionalNumber = z.preprocess(
+  toNumberOrUndefined,
+  z.number({ invalid_type_error: 'Must be a number' }).finite().optional()
+)
+const booleanField = z.preprocess(
+  value => value === 'true' ? true : value === 'false' ? false : emptyToUndefined(value),
+  z.boolean().default(false)
+)
+
+/**
+ * One sighting as returned by the notable observations endpoint, or as exported to CSV or GeoJSON
+ * Fields missing from `detail=simple` responses get defaults
+ */
+export const sightingSchema = z.object({
+  speciesCode: textField,
+  comName: textField,
+  sciName: textField,
+  locId: z.preprocess(emptyToUndefined, z.string().regex(/^L\d+$/, 'Must be a location code such as L123456')),
+  locName: textField,
+  obsDt: z.preprocess(
+    emptyToUndefined,
+    z.string().regex(/^\d{4}-\d{2}-\d{2}( \d{2}:\d{2})?$/, 'Must be a date such as 2017-08-23 10:11')
+  ),
+  howMany: optionalNumber,
+  lat: numberField.pipe(z.number().min(-90).max(90)),
+  lng: numberField.pipe(z.number().min(-180).max(180)),
+  obsValid: booleanField,
+  obsReviewed: booleanField,
+  locationPrivate: booleanField,
+  subnational2Code: optionalText,
+  subnational2Name: optionalText,
+  subnational1Code: optionalText.transform(value => value ?? ''),
+  subnational1Name: optionalText.transform(value => value ?? ''),
+  countryCode: optionalText.transform(value => value ?? ''),
+  countryName: optionalText.transform(value => value ?? ''),
+  userDisplayName: optionalText.transform(value => value ?? ''),
+  subId: z.preprocess(emptyToUndefined, z.string().regex(/^S\d+$/, 'Must be a checklist id such as S38783126')),
+  obsId: textField,
+  checklistId: optionalText.transform(value => value ?? ''),
+  presenceNoted: booleanField,
+  hasComments: booleanField,
+  firstName: optionalText.transform(value => value ?? ''),
+  lastName: optionalText.transform(value => value ?? ''),
+  hasRichMedia: booleanField,
+  locID: optionalText,
+}).transform((sighting): EBirdSighting => ({ ...sighting, locID: sighting.locID ?? sighting.locId }))
+
+/**
+ * Split CSV text into rows of cells (RFC 4180: quoted cells may contain commas, quotes and line breaks)
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell)
+    rows.push(row)
+  }
+  return rows
+}
+
+/**
+ * Raw records found in a file, before validation, with the row number each came from
+ */
+interface RawRecords {
+  format: OfflineDataset['format']
+  records: { row: number, value: unknown }[]
+  capturedAt?: string
+}
+
+/**
+ * Remove the ' toCsv puts before text a spreadsheet would read as a formula
+ */
+function unguardFormula(cell: string): string {
+  return /^'+[=+\-@\t\r]/.test(cell) ? cell.slice(1) : cell
+}
+
+/**
+ * Read records from CSV text, using the header row for field names
+ * Blank lines are skipped
+ */
+function readCsv(text: string): RawRecords {
+  const [header, ...rows] = parseCsv(text.replace(/^\uFEFF/, ''))
+  if (!header) throw new Error('The CSV file is empty')
+
+  const columns = header.map(column => column.trim())
+  return {
+    format: 'csv',
+    records: rows
+      .map((cells, index) => ({ cells, row: index + 2 }))
+      .filter(({ cells }) => cells.some(cell => cell.trim() !== ''))
+      .map(({ cells, row }) => ({
+        row,
+        value: Object.fromEntries(columns.map((column, index) => [column, unguardFormula(cells[index] ?? '')])),
+      })),
+  }
+}
+
+/**
+ * Read records from a notable observations JSON array or a GeoJSON FeatureCollection
+ * GeoJSON coordinates win over lat/lng properties
+ */
+function readJson(text: string): RawRecords {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new Error('The file is not valid JSON')
+  }
+
+  if (Array.isArray(data)) {
+    return { format: 'json', records: data.map((value, index) => ({ row: index + 1, value })) }
+  }
+
+  const collection = data as { type?: unknown, features?: unknown, capturedAt?: unknown }
+  if (collection?.type === 'FeatureCollection' && Array.isArray(collection.features)) {
+    return {
+      format: 'geojson',
+      capturedAt: typeof collection.capturedAt === 'string' ? collection.capturedAt : undefined,
+      records: collection.features.map((feature, index) => {
+        const { properties, geometry } = (feature ?? {}) as { properties?: Record<string, unknown>, geometry?: { type?: string, coordinates?: unknown } }
+        const coordinates = geometry?.type === 'Point' && Array.isArray(geometry.coordinates) ? geometry.coordinates : undefined
+        return {
+          row: index + 1,
+          value: coordinates ? { ...properties, lng: coordinates[0], lat: coordinates[1] } : properties,
+        }
+      }),
+    }
+  }
+
+  throw new Error('Expected an array of sightings or a GeoJSON FeatureCollection')
+}
+
+/**
+ * Parse and validate a dataset file
+ * Valid rows are kept and malformed ones reported, so one bad row does not lose the whole file
+ * @param fileName - Name of the file; a .csv extension selects the CSV reader
+ * @param text - File contents
+ * @param lastModified - File modification time, used as the capture date when the file has none
+ * @throws When the file cannot be read at all or contains no valid sightings
+ */
+export function parseDataset(fileName: string, text: string, lastModified: number): OfflineDataset {
+  const { format, records, capturedAt } = /\.csv$/i.test(fileName) ? readCsv(text) : readJson(text)
+  const sightings: EBirdSighting[] = []
+  const issues: DatasetIssue[] = []
+  let issueCount = 0
+
+  records.forEach(({ row, value }) => {
+    const parsed = sightingSchema.safeParse(value)
+    if (parsed.success) {
+      sightings.push(parsed.data)
+      return
+    }
+    issueCount++
+    if (issues.length < MAX_REPORTED_ISSUES) {
+      const issue = parsed.error.issues[0]
+      issues.push({ row, field: issue.path.join('.') || undefined, message: issue.message })
+    }
+  })
+
+  if (issueCount > issues.length) {
+    issues.push({ row: 0, message: `${issueCount - issues.length} more malformed rows not listed` })
+  }
+  if (sightings.length === 0) {
+    throw new Error(records.length === 0 ? 'The file contains no sightings' : `None of the ${records.length} rows are valid sightings`)
+  }
+
+  return {
+    fileName,
+    format,
+    capturedAt: capturedAt ?? new Date(lastModified).toISOString(),
+    sightings,
+    issues,
+  }
+}
@@ -0,0 +1,114 @@
+import { EBirdRareAlert, RarityTier } from '@/types/ebird'
+import { RARITY_TIERS } from '@/lib/rare-alerts'
+import { dedupeByObsId } from '@/lib/dedupe'
+
+/**
+ * All reports of one species across the result set
+ */
+export interface SpeciesSummary {
+  speciesCode: string
+  comName: string
+  sciName: string
+  rarity: RarityTier
+  reportCount: number
+  locIds: string[]
+  firstSeen: string
+  lastSeen: string
+  maxHowMany?: number
+  validCount: number
+  reviewedCount: number
+  latest: EBirdRareAlert
+}
+
+/**
+ * Columns the species list can be sorted by
+ */
+export type SpeciesSortKey = 'comName' | 'rarity' | 'reportCount' | 'locations' | 'firstSeen' | 'lastSeen' | 'maxHowMany'
+
+/**
+ * Validation status filter for the species list
+ */
+export type SpeciesStatusFilter = 'all' | 'valid' | 'reviewed' | 'unconfirmed'
+
+/**
+ * Group sightings by species
+ * @param alerts - Rare alerts to summarize
+ * @returns One summary per speciesCode, in order of first appearance
+ */
+export function summarizeSpecies(alerts: EBirdRareAlert[]): SpeciesSummary[] {
+  const summaries = new Map<string, SpeciesSummary>()
+
+  dedupeByObsId(alerts).forEach(alert => {
+    let summary = summaries.get(alert.speciesCode)
+    if (!summary) {
+      summary = {
+        speciesCode: alert.speciesCode,
+        comName: alert.comName,
+        sciName: alert.sciName,
+        rarity: alert.rarity,
+        reportCount: 0,
+        locIds: [],
+        firstSeen: alert.obsDt,
+        lastSeen: alert.obsDt,
+        validCount: 0,
+        reviewedCount: 0,
+        latest: alert,
+      }
+      summaries.set(alert.speciesCode, summary)
+    }
+
+    summary.reportCount += 1
+    if (!summary.locIds.includes(alert.locId)) summary.locIds.push(alert.locId)
+    if (alert.obsDt < summary.firstSeen) summary.firstSeen = alert.obsDt
+    if (alert.obsDt >= summary.lastSeen) {
+      summary.lastSeen = alert.obsDt
+      summary.latest = alert
+    }
+    if (alert.howMany !== undefined) {
+      summary.maxHowMany = Math.max(summary.maxHowMany ?? 0, alert.howMany)
+    }
+    if (alert.obsValid) summary.validCount += 1
+    if (alert.obsReviewed) summary.reviewedCount += 1
+  })
+
+  return Array.from(summaries.values())
+}
+
+/**
+ * Whether a species has at least one report matching the status filter
+ */
+export function matchesStatus(summary: SpeciesSummary, status: SpeciesStatusFilter): boolean {
+  switch (status) {
+    case 'valid':
+      return summary.validCount > 0
+    case 'reviewed':
+      return summary.reviewedCount > 0
+    case 'unconfirmed':
+      return summary.validCount < summary.reportCount
+    default:
+      return true
+  }
+}
+
+/**
+ * Compare two species summaries by a column, ascending
+ * Missing counts sort before any number
+ */
+export function compareSpecies(a: SpeciesSummary, b: SpeciesSummary, key: SpeciesSortKey): number {
+  switch (key) {
+    case 'rarity':
+      return RARITY_TIERS.indexOf(a.rarity) - RARITY_TIERS.indexOf(b.rarity)
+    case 'reportCount':
+      return a.reportCount - b.reportCount
+    case 'locations':
+      return a.locIds.length - b.locIds.length
+    case 'firstSeen':
+      return a.firstSeen.localeCompare(b.firstSeen)
+    case 'lastSeen':
+      return a.lastSeen.localeCompare(b.lastSeen)
+    case 'maxHowMany':
+      return (a.maxHowMany ?? -1) - (b.maxHowMany ?? -1)
+    default:
+      return a.comName.localeCompare(b.comName)
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * Base map tile source
+ * crossOrigin requests tiles with CORS, which lets the service worker keep them offline;
+ * it is off for servers that may not send CORS headers, since the tiles would then fail to load
+ */
+export interface TileProvider {
+  id: string
+  label: string
+  url: string
+  attribution: string
+  maxZoom: number
+  tileSize?: number
+  zoomOffset?: number
+  crossOrigin: boolean
+}
+
+export const DEFAULT_TILE_PROVIDER_ID = 'osm'
+
+// Value of MAPBOX_ACCESS_TOKEN in env.example
+const MAPBOX_TOKEN_PLACEHOLDER = 'your_mapbox_token_here'
+
+const OSM_ATTRIBUTION = '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+
+/**
+ * Configured Mapbox token, ignoring the env.example placeholder
+ */
+export function getMapboxToken(): string | undefined {
+  const token = process.env.MAPBOX_ACCESS_TOKEN?.trim()
+  return token && token !== MAPBOX_TOKEN_PLACEHOLDER ? token : undefined
+}
+
+/**
+ * Tile providers usable with the current configuration, the default first
+ * Satellite needs MAPBOX_ACCESS_TOKEN and the local server LOCAL_TILE_URL, both forwarded by next.config.js
+ */
+export function getTileProviders(): TileProvider[] {
+  const providers: TileProvider[] = [
+    {
+      id: 'osm',
+      label: 'Streets',
+      url: 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png',
+      attribution: OSM_ATTRIBUTION,
+      maxZoom: 19,
+      crossOrigin: true,
+    },
+    {
+      id: 'topo',
+      label: 'Topographic',
+      url: 'https://{s}.tile.opentopomap.org/{z}/{x}/{y}.png',
+      attribution: `Map data: ${OSM_ATTRIBUTION}, SRTM | Map style: &copy; <a href="https://opentopomap.org">OpenTopoMap</a> (<a href="https://creativecommons.org/licenses/by-sa/3.0/">CC-BY-SA</a>)`,
+      maxZoom: 17,
+      crossOrigin: true,
+    },
+  ]
+
+  const mapboxToken = getMapboxToken()
+  if (mapboxToken) {
+    providers.push({
+      id: 'satellite',
+      label: 'Satellite',
+      url: `https://api.mapbox.com/styles/v1/mapbox/satellite-streets-v12/tiles/{z}/{x}/{y}?access_token=${encodeURIComponent(mapboxToken)}`,
+      attribution: `&copy; <a href="https://www.mapbox.com/about/maps/">Mapbox</a> ${OSM_ATTRIBUTION} <a href="https://www.mapbox.com/map-feedback/">Improve this map</a>`,
+      maxZoom: 20,
+      // Mapbox serves 512px tiles, one zoom level ahead of Leaflet's 256px grid
+      tileSize: 512,
+      zoomOffset: -1,
+      crossOrigin: true,
+    })
+  }
+
+  const localUrl = process.env.LOCAL_TILE_URL?.trim()
+  if (localUrl) {
+    providers.push({
+      id: 'local',
+      label: 'Local tiles',
+      url: localUrl,
+      attribution: process.env.LOCAL_TILE_ATTRIBUTION?.trim() || OSM_ATTRIBUTION,
+      maxZoom: 19,
+      crossOrigin: false,
+    })
+  }
+
+  return providers
+}
+
+/**
+ * Find a provider by id, falling back to the default when it is unknown or no longer configured
+ */
+export function getTileProvider(id: string | undefined): TileProvider {
+  const providers = getTileProviders()
+  return providers.find(provider => provider.id === id) ?? providers[0]
+}
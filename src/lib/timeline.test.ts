@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest'
+import { buildSpeciesTracks, buildTimelineDays, getMarkerOpacity, getSightingsUpTo } from '@/lib/timeline'
+import { EBirdRareAlert, RarityTier } from '@/types/ebird'
+
+/**
+ * Rare alert for one species at one location and time
+ */
+function alert(
+  speciesCode: string,
+  locId: string,
+  obsDt: string,
+  position: [number, number] = [42.45, -76.5],
+  rarity: RarityTier = 'rare'
+): EBirdRareAlert {
+  return {
+    speciesCode,
+    comName: speciesCode,
+    sciName: speciesCode,
+    locId,
+    locID: locId,
+    locName: locId,
+    obsDt,
+    lat: position[0],
+    lng: position[1],
+    obsValid: true,
+    obsReviewed: false,
+    locationPrivate: false,
+    subnational1Code: 'US-NY',
+    subnational1Name: 'New York',
+    countryCode: 'US',
+    countryName: 'United States',
+    userDisplayName: 'Pat Birder',
+    subId: `S-${locId}-${obsDt}`,
+    obsId: `OBS-${speciesCode}-${locId}-${obsDt}`,
+    checklistId: 'CL1',
+    presenceNoted: false,
+    hasComments: false,
+    firstName: 'Pat',
+    lastName: 'Birder',
+    hasRichMedia: false,
+    rarity,
+  }
+}
+
+describe('buildTimelineDays', () => {
+  it('covers every day from the first report to the last, including quiet days', () => {
+    const days = buildTimelineDays([
+      alert('snoowl1', 'L1', '2024-02-29 18:00'),
+      alert('snoowl1', 'L1', '2024-02-27 07:30'),
+      alert('libher', 'L2', '2024-03-02'),
+    ])
+
+    expect(days).toEqual(['2024-02-27', '2024-02-28', '2024-02-29', '2024-03-01', '2024-03-02'])
+  })
+
+  it('returns a single day when every report is on the same day', () => {
+    expect(buildTimelineDays([alert('snoowl1', 'L1', '2024-05-01 06:00'), alert('snoowl1', 'L1', '2024-05-01 20:00')]))
+      .toEqual(['2024-05-01'])
+  })
+
+  it('returns no days without reports', () => {
+    expect(buildTimelineDays([])).toEqual([])
+  })
+})
+
+describe('getSightingsUpTo', () => {
+  it('keeps reports made on or before the day', () => {
+    const alerts = [alert('a', 'L1', '2024-05-01 23:59'), alert('b', 'L1', '2024-05-02 00:00')]
+
+    expect(getSightingsUpTo(alerts, '2024-05-01').map(item => item.speciesCode)).toEqual(['a'])
+  })
+})
+
+describe('getMarkerOpacity', () => {
+  it('fades markers over a week after their latest report', () => {
+    expect(getMarkerOpacity('2024-05-01 07:30', '2024-05-01')).toBe(1)
+    expect(getMarkerOpacity('2024-05-01 07:30', '2024-05-08')).toBeCloseTo(0.3)
+    expect(getMarkerOpacity('2024-05-01 07:30', '2024-06-01')).toBe(0.3)
+  })
+})
+
+describe('buildSpeciesTracks', () => {
+  it('connects reports of a species in date order, skipping repeats at the same location', () => {
+    const tracks = buildSpeciesTracks([
+      alert('snoowl1', 'L3', '2024-05-03', [43, -76]),
+      alert('snoowl1', 'L1', '2024-05-01', [42, -76]),
+      alert('snoowl1', 'L1', '2024-05-01 18:00', [42, -76]),
+      alert('snoowl1', 'L2', '2024-05-02', [42.5, -76], 'accidental'),
+    ])
+
+    expect(tracks).toEqual([{
+      speciesCode: 'snoowl1',
+      comName: 'snoowl1',
+      rarity: 'accidental',
+      positions: [[42, -76], [42.5, -76], [43, -76]],
+    }])
+  })
+
+  it('leaves out species that stayed at one location', () => {
+    const tracks = buildSpeciesTracks([
+      alert('libher', 'L1', '2024-05-01'),
+      alert('libher', 'L1', '2024-05-02'),
+      alert('whiibi', 'L2', '2024-05-01'),
+    ])
+
+    expect(tracks).toEqual([])
+  })
+
+  it('draws a return to an earlier location as a new stop', () => {
+    const tracks = buildSpeciesTracks([
+      alert('snoowl1', 'L1', '2024-05-01', [42, -76]),
+      alert('snoowl1', 'L2', '2024-05-02', [43, -76]),
+      alert('snoowl1', 'L1', '2024-05-03', [42, -76]),
+    ])
+
+    expect(tracks[0].positions).toEqual([[42, -76], [43, -76], [42, -76]])
+  })
+})
@@ -0,0 +1,97 @@
+import { addDays, differenceInCalendarDays, format } from 'date-fns'
+import { parseObsDate } from '@/lib/utils'
+import { RARITY_TIERS } from '@/lib/rare-alerts'
+import { EBirdRareAlert, RarityTier } from '@/types/ebird'
+
+/**
+ * Playback speeds, in days per second
+ */
+export const PLAYBACK_SPEEDS = [0.5, 1, 2, 4]
+
+// Markers fade over this many days after their latest report, down to MIN_MARKER_OPACITY
+const FADE_DAYS = 7
+const MIN_MARKER_OPACITY = 0.3
+
+/**
+ * Reports of one species in the order they were made, for drawing its movement
+ */
+export interface SpeciesTrack {
+  speciesCode: string
+  comName: string
+  rarity: RarityTier
+  positions: [number, number][]
+}
+
+/**
+ * Day of an eBird observation date ("2017-08-23 10:11" becomes "2017-08-23")
+ */
+export function getObservationDay(obsDt: string): string {
+  return obsDt.slice(0, 10)
+}
+
+/**
+ * Every day from the earliest to the latest observation, including days without reports
+ * @param alerts - Sightings to cover
+ * @returns Days as yyyy-MM-dd strings, oldest first
+ */
+export function buildTimelineDays(alerts: EBirdRareAlert[]): string[] {
+  if (alerts.length === 0) return []
+
+  const days = alerts.map(alert => getObservationDay(alert.obsDt)).sort()
+  const first = parseObsDate(days[0])
+  const count = differenceInCalendarDays(parseObsDate(days[days.length - 1]), first) + 1
+  return Array.from({ length: count }, (_, index) => format(addDays(first, index), 'yyyy-MM-dd'))
+}
+
+/**
+ * Sightings reported on or before a day
+ */
+export function getSightingsUpTo(alerts: EBirdRareAlert[], day: string): EBirdRareAlert[] {
+  return alerts.filter(alert => getObservationDay(alert.obsDt) <= day)
+}
+
+/**
+ * Opacity of a marker whose latest report was on obsDt, seen from a day of the timeline
+ * Reports on the day itself are fully opaque; older ones fade over a week
+ */
+export function getMarkerOpacity(obsDt: string, day: string): number {
+  const age = differenceInCalendarDays(parseObsDate(day), parseObsDate(getObservationDay(obsDt)))
+  return Math.max(MIN_MARKER_OPACITY, 1 - Math.max(0, age) * (1 - MIN_MARKER_OPACITY) / FADE_DAYS)
+}
+
+/**
+ * Connect successive reports of each species across locations
+ * Repeat reports at the same location are drawn once, so a bird staying put makes no track
+ * eBird dates sort lexically, so reports are ordered by comparing strings
+ * @param alerts - Sightings to connect
+ * @returns Tracks for species reported at two or more locations in turn
+ */
+export function buildSpeciesTracks(alerts: EBirdRareAlert[]): SpeciesTrack[] {
+  const bySpecies = new Map<string, EBirdRareAlert[]>()
+  alerts.forEach(alert => {
+    const reports = bySpecies.get(alert.speciesCode)
+    if (reports) {
+      reports.push(alert)
+    } else {
+      bySpecies.set(alert.speciesCode, [alert])
+    }
+  })
+
+  const tracks: SpeciesTrack[] = []
+  bySpecies.forEach((reports, speciesCode) => {
+    const ordered = [...reports].sort((a, b) => a.obsDt.localeCompare(b.obsDt))
+    const stops = ordered.filter((report, index) => index === 0 || report.locId !== ordered[index - 1].locId)
+    if (stops.length < 2) return
+
+    tracks.push({
+      speciesCode,
+      comName: ordered[0].comName,
+      rarity: ordered.reduce<RarityTier>(
+        (rarest, report) => RARITY_TIERS.indexOf(report.rarity) > RARITY_TIERS.indexOf(rarest) ? report.rarity : rarest,
+        ordered[0].rarity
+      ),
+      positions: stops.map(stop => [stop.lat, stop.lng]),
+    })
+  })
+  return tracks
+}
@@ -0,0 +1,168 @@
+import {
+  createParser,
+  parseAsArrayOf,
+  parseAsBoolean,
+  parseAsStringLiteral,
+  type Values,
+} from 'nuqs'
+import { z } from 'zod'
+import {
+  locationListParam,
+  regionCodeSchema,
+  speciesCodeSchema,
+  sppLocaleParam,
+  subIdSchema,
+} from '@/lib/ebird-endpoints'
+import { DEFAULT_CLIENT_FILTERS } from '@/lib/client-filters'
+import { ClientFilters, FilterOptions } from '@/types/ebird'
+
+/**
+ * Map position kept in the URL
+ */
+export interface MapViewport {
+  lat: number
+  lng: number
+  zoom: number
+}
+
+/**
+ * Query string parser that drops values the schema rejects, so a bad link falls back to defaults
+ */
+function parseAsSchema<T extends string | number>(schema: z.ZodType<T, z.ZodTypeDef, unknown>) {
+  return createParser({
+    parse: (value: string) => {
+      const result = schema.safeParse(value)
+      return result.success ? result.data : null
+    },
+    serialize: (value: T) => String(value),
+  })
+}
+
+const daySchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/)
+
+/**
+ * Viewport as "lat,lng,zoom", rounded so small pans do not produce noisy URLs
+ */
+const parseAsViewport = createParser<MapViewport>({
+  parse: (value: string) => {
+    const [lat, lng, zoom] = value.split(',').map(Number)
+    const result = z.object({
+      lat: z.number().min(-90).max(90),
+      lng: z.number().min(-180).max(180),
+      zoom: z.number().int().min(1).max(19),
+    }).safeParse({ lat, lng, zoom })
+    return result.success ? result.data : null
+  },
+  serialize: ({ lat, lng, zoom }) => `${lat.toFixed(4)},${lng.toFixed(4)},${zoom}`,
+})
+
+/**
+ * URL query keys for the app state, validated on load
+ * Filter keys are only written once a search is applied; their presence means the link should fetch
+ */
+export const urlStateParsers = {
+  mode: parseAsStringLiteral(['region', 'nearby'] as const),
+  region: parseAsSchema(regionCodeSchema.transform(code => code.toUpperCase())),
+  lat: parseAsSchema(z.coerce.number().min(-90).max(90)),
+  lng: parseAsSchema(z.coerce.number().min(-180).max(180)),
+  dist: parseAsSchema(z.coerce.number().int().min(0).max(50)),
+  back: parseAsSchema(z.coerce.number().int().min(1).max(30)),
+  detail: parseAsStringLiteral(['simple', 'full'] as const),
+  hotspot: parseAsBoolean,
+  max: parseAsSchema(z.coerce.number().int().min(1).max(10000)),
+  r: parseAsSchema(locationListParam),
+  locale: parseAsSchema(sppLocaleParam),
+  spp: parseAsArrayOf(parseAsSchema(speciesCodeSchema)),
+  confirmed: parseAsBoolean,
+  media: parseAsBoolean,
+  comments: parseAsBoolean,
+  min: parseAsSchema(z.coerce.number().int().min(1)),
+  county: parseAsSchema(regionCodeSchema),
+  from: parseAsSchema(daySchema),
+  to: parseAsSchema(daySchema),
+  map: parseAsViewport,
+  sub: parseAsSchema(subIdSchema),
+}
+
+/**
+ * Parsed URL state
+ */
+export type UrlState = Values<typeof urlStateParsers>
+
+/**
+ * Applied eBird filters from the URL
+ * @param state - Parsed URL state
+ * @param defaults - Values for keys missing from the URL
+ * @returns The filters, or null when the URL does not describe a search
+ */
+export function filtersFromUrl(state: UrlState, defaults: FilterOptions): FilterOptions | null {
+  if (!state.mode) return null
+  if (state.mode === 'nearby' && (state.lat === null || state.lng === null)) return null
+
+  return {
+    searchMode: state.mode,
+    regionCode: state.region ?? defaults.regionCode,
+    lat: state.lat ?? undefined,
+    lng: state.lng ?? undefined,
+    dist: state.dist ?? defaults.dist,
+    back: state.back ?? defaults.back,
+    detail: state.detail ?? defaults.detail,
+    hotspot: state.hotspot ?? defaults.hotspot,
+    maxResults: state.max ?? undefined,
+    r: state.r ?? undefined,
+    sppLocale: state.locale ?? defaults.sppLocale,
+  }
+}
+
+/**
+ * URL values for applied eBird filters
+ * Fields that do not apply to the search mode are cleared
+ */
+export function filtersToUrl(filters: FilterOptions): Partial<UrlState> {
+  const isNearby = filters.searchMode === 'nearby'
+  return {
+    mode: filters.searchMode,
+    region: isNearby ? null : filters.regionCode.trim() || null,
+    lat: isNearby ? filters.lat ?? null : null,
+    lng: isNearby ? filters.lng ?? null : null,
+    dist: isNearby ? filters.dist ?? null : null,
+    back: filters.back,
+    detail: filters.detail,
+    hotspot: filters.hotspot || null,
+    max: filters.maxResults ?? null,
+    r: isNearby ? null : filters.r?.trim() || null,
+    locale: filters.sppLocale,
+  }
+}
+
+/**
+ * Client-side refinements from the URL
+ */
+export function clientFiltersFromUrl(state: UrlState): ClientFilters {
+  return {
+    species: state.spp ?? DEFAULT_CLIENT_FILTERS.species,
+    confirmedOnly: state.confirmed ?? DEFAULT_CLIENT_FILTERS.confirmedOnly,
+    hasRichMedia: state.media ?? DEFAULT_CLIENT_FILTERS.hasRichMedia,
+    hasComments: state.comments ?? DEFAULT_CLIENT_FILTERS.hasComments,
+    minHowMany: state.min ?? undefined,
+    county: state.county ?? undefined,
+    dateFrom: state.from ?? undefined,
+    dateTo: state.to ?? undefined,
+  }
+}
+
+/**
+ * URL values for client-side refinements, leaving inactive ones out of the URL
+ */
+export function clientFiltersToUrl(filters: ClientFilters): Partial<UrlState> {
+  return {
+    spp: filters.species.length > 0 ? filters.species : null,
+    confirmed: filters.confirmedOnly || null,
+    media: filters.hasRichMedia || null,
+    comments: filters.hasComments || null,
+    min: filters.minHowMany ?? null,
+    county: filters.county ?? null,
+    from: filters.dateFrom ?? null,
+    to: filters.dateTo ?? null,
+  }
+}
@@ -1,5 +1,6 @@
 import { type ClassValue, clsx } from 'clsx'
 import { twMerge } from 'tailwind-merge'
+import { parse } from 'date-fns'
 
 /**
  * Utility function to merge Tailwind CSS classes with proper conflict resolution
@@ -8,13 +9,25 @@ export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
 
+/**
+ * Parse an eBird observation date
+ * eBird uses local time without a zone, either "2017-08-23 10:11" or "2017-08-23" when no time was recorded
+ * @param obsDt - Observation date string from eBird API
+ * @returns Date in the browser's local time
+ */
+export function parseObsDate(obsDt: string): Date {
+  const format = obsDt.length > 10 ? 'yyyy-MM-dd HH:mm' : 'yyyy-MM-dd'
+  const date = parse(obsDt, format, new Date())
+  return Number.isNaN(date.getTime()) ? new Date(obsDt) : date
+}
+
 /**
  * Format a date string to a human-readable format
- * @param dateString - ISO date string from eBird API
+ * @param dateString - Observation date string from eBird API
  * @returns Formatted date string (e.g., "Dec 15, 2023, 02:30 PM")
  */
 export function formatDate(dateString: string): string {
-  const date = new Date(dateString)
+  const date = parseObsDate(dateString)
   return date.toLocaleDateString('en-US', {
     year: 'numeric',
     month: 'short',
@@ -24,6 +37,21 @@ export function formatDate(dateString: string): string {
   })
 }
 
+/**
+ * Link to a checklist on the eBird website
+ * @param subId - Checklist id, e.g. "S38783126"
+ */
+export function getChecklistUrl(subId: string): string {
+  return `https://ebird.org/checklist/${encodeURIComponent(subId)}`
+}
+
+/**
+ * Link to a point on OpenStreetMap, with a marker
+ */
+export function getMapUrl(lat: number, lng: number, zoom = 14): string {
+  return `https://www.openstreetmap.org/?mlat=${lat}&mlon=${lng}#map=${zoom}/${lat}/${lng}`
+}
+
 /**
  * Get the initial map center coordinates (central US)
  * @returns [latitude, longitude] coordinates
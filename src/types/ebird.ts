@@ -50,7 +50,11 @@ export interface EBirdSighting {
   locID: string
 }
 
-export interface EBirdRareAlert {
+/**
+ * Observation from the recent, species and historic endpoints in simple detail
+ * EBirdSighting is the full-detail shape returned by the notable endpoints
+ */
+export interface EBirdObservation {
   speciesCode: string
   comName: string
   sciName: string
@@ -64,12 +68,143 @@ export interface EBirdRareAlert {
   obsReviewed: boolean
   locationPrivate: boolean
   subId: string
+  exoticCategory?: string
+}
+
+/**
+ * Observation entry within a checklist
+ */
+export interface EBirdChecklistObservation {
+  speciesCode: string
+  obsDt: string
+  obsId: string
+  howManyStr: string
+  howManyAtleast?: number
+  howManyAtmost?: number
+  present: boolean
+  finalized: boolean
+  hideFlags: string[]
+  subnational1Code?: string
+  mediaCounts?: Record<string, number>
+  comments?: string
+}
+
+/**
+ * Full checklist from the checklist view endpoint
+ */
+export interface EBirdChecklist {
+  subId: string
+  checklistId: string
+  projId: string
+  protocolId: string
+  locId: string
+  obsDt: string
+  obsTimeValid: boolean
+  creationDt: string
+  lastEditedDt: string
+  allObsReported: boolean
+  durationHrs?: number
+  effortDistanceKm?: number
+  numObservers?: number
+  numSpecies: number
   subnational1Code: string
-  subnational1Name: string
-  countryCode: string
-  countryName: string
+  submissionMethodCode?: string
+  userDisplayName: string
+  comments?: string
+  obs: EBirdChecklistObservation[]
+}
+
+/**
+ * Checklist summary from the recent checklists feed
+ */
+export interface EBirdChecklistSummary {
+  subId: string
+  locId: string
   userDisplayName: string
-  rarity: 'rare' | 'unusual' | 'casual' | 'accidental'
+  numSpecies: number
+  obsDt: string
+  obsTime?: string
+  loc: EBirdLocation
+}
+
+/**
+ * Hotspot from the region and nearby hotspot endpoints
+ */
+export interface EBirdHotspot {
+  locId: string
+  locName: string
+  countryCode: string
+  subnational1Code: string
+  subnational2Code?: string
+  lat: number
+  lng: number
+  latestObsDt?: string
+  numSpeciesAllTime?: number
+}
+
+/**
+ * Taxonomy category used by the cat parameter
+ */
+export type EBirdTaxonCategory = 'species' | 'slash' | 'issf' | 'spuh' | 'hybrid' | 'domestic' | 'form' | 'intergrade'
+
+/**
+ * Entry in the eBird taxonomy
+ */
+export interface EBirdTaxon {
+  speciesCode: string
+  comName: string
+  sciName: string
+  category: EBirdTaxonCategory
+  taxonOrder: number
+  bandingCodes: string[]
+  comNameCodes: string[]
+  sciNameCodes: string[]
+  order?: string
+  familyCode?: string
+  familyComName?: string
+  familySciName?: string
+  reportAs?: string
+  extinct?: boolean
+  extinctYear?: number
+}
+
+/**
+ * Region type accepted by the sub-region list endpoint
+ */
+export type EBirdRegionType = 'country' | 'subnational1' | 'subnational2'
+
+/**
+ * Region from the sub-region list endpoint
+ */
+export interface EBirdRegion {
+  code: string
+  name: string
+}
+
+/**
+ * Region details from the region info endpoint
+ */
+export interface EBirdRegionInfo {
+  result: string
+  bounds?: {
+    minX: number
+    maxX: number
+    minY: number
+    maxY: number
+  }
+}
+
+/**
+ * Rarity tier of a notable sighting, from least to most rare
+ */
+export type RarityTier = 'unusual' | 'rare' | 'casual' | 'accidental'
+
+/**
+ * Notable sighting enriched for display
+ * `distance` is in kilometres from the user's location, when known
+ */
+export interface EBirdRareAlert extends EBirdSighting {
+  rarity: RarityTier
   distance?: number
   timeSince?: string
 }
@@ -90,11 +225,21 @@ export interface UserLocation {
   accuracy?: number
 }
 
+/**
+ * How sightings are searched: by region code or by distance from a point
+ */
+export type SearchMode = 'region' | 'nearby'
+
 /**
  * Filter options for eBird API queries
+ * `lat`, `lng` and `dist` (km, 0-50) are used in nearby mode instead of `regionCode` and `r`
  */
 export interface FilterOptions {
+  searchMode: SearchMode
   regionCode: string
+  lat?: number
+  lng?: number
+  dist?: number
   back: number
   detail: 'simple' | 'full'
   hotspot: boolean
@@ -103,11 +248,196 @@ export interface FilterOptions {
   sppLocale: string
 }
 
+/**
+ * Refinements applied in the browser to sightings that are already loaded
+ * Dates are "yyyy-MM-dd" days, inclusive, compared against `obsDt`
+ */
+export interface ClientFilters {
+  species: string[]
+  confirmedOnly: boolean
+  hasRichMedia: boolean
+  hasComments: boolean
+  minHowMany?: number
+  county?: string
+  dateFrom?: string
+  dateTo?: string
+}
+
+/**
+ * A row of an imported dataset that could not be read
+ * `row` is 1-based: the array index for JSON, the feature index for GeoJSON and the line for CSV
+ */
+export interface DatasetIssue {
+  row: number
+  field?: string
+  message: string
+}
+
+/**
+ * Sightings loaded from a file for offline viewing instead of from the API
+ * `capturedAt` is when the data was downloaded, from the file itself or its modification time
+ */
+export interface OfflineDataset {
+  fileName: string
+  format: 'json' | 'csv' | 'geojson'
+  capturedAt: string
+  sightings: EBirdSighting[]
+  issues: DatasetIssue[]
+}
+
+/**
+ * Named snapshot of filter options saved in the browser
+ */
+export interface SavedSearch {
+  id: string
+  name: string
+  filters: FilterOptions
+  createdAt: string
+}
+
+/**
+ * Payload shape for a subscription webhook: plain JSON, or a Slack or Discord message
+ */
+export type WebhookFormat = 'json' | 'slack' | 'discord'
+
+/**
+ * When a subscription emails: after every run that finds new sightings, or once a day
+ */
+export type EmailDigestMode = 'instant' | 'daily'
+
+/**
+ * Daily window in which a subscription sends nothing
+ * Times are "HH:mm" in the given IANA time zone; the window may span midnight
+ */
+export interface QuietHours {
+  start: string
+  end: string
+  timeZone: string
+}
+
+/**
+ * Server-side alert subscription that posts new notable sightings to a webhook and/or emails them
+ * Uses the same search fields as FilterOptions; species lists hold eBird species codes
+ * `seededAt` is set by the first successful run, which records the sightings current at that time
+ */
+export interface AlertSubscription {
+  id: string
+  name: string
+  searchMode: SearchMode
+  regionCode?: string
+  lat?: number
+  lng?: number
+  dist?: number
+  back: number
+  includeSpecies: string[]
+  excludeSpecies: string[]
+  confirmedOnly: boolean
+  quietHours?: QuietHours
+  webhookUrl?: string
+  webhookFormat: WebhookFormat
+  emailRecipients: string[]
+  emailDigest: EmailDigestMode
+  intervalMinutes: number
+  createdAt: string
+  lastRunAt?: string
+  seededAt?: string
+  lastDeliveredAt?: string
+  lastEmailedAt?: string
+  lastError?: string
+}
+
+/**
+ * Where the proxy gets the eBird API key from
+ */
+export type ApiKeySource = 'session' | 'server'
+
+/**
+ * Public reference to the API key used by the proxy
+ * Never contains the key itself; the key stays server-side behind an httpOnly cookie
+ */
+export interface ApiKeySession {
+  source: ApiKeySource
+  keyHint?: string
+  expiresAt?: string
+  /** Whether the user asked for the longer-lived session on this device */
+  remembered?: boolean
+}
+
+/**
+ * Options for the recent observations in a region endpoint
+ */
+export interface RecentObservationOptions {
+  back?: number
+  cat?: EBirdTaxonCategory[]
+  hotspot?: boolean
+  includeProvisional?: boolean
+  maxResults?: number
+  r?: string[]
+  sppLocale?: string
+}
+
+/**
+ * Options for the recent observations of a species endpoint
+ */
+export type SpeciesObservationOptions = Omit<RecentObservationOptions, 'cat'>
+
+/**
+ * Options for the nearby notable observations endpoint
+ */
+export interface NearbyNotableOptions {
+  dist?: number
+  back?: number
+  detail?: 'simple' | 'full'
+  hotspot?: boolean
+  maxResults?: number
+  sppLocale?: string
+}
+
+/**
+ * Options for the historic observations on a date endpoint
+ */
+export interface HistoricObservationOptions {
+  cat?: EBirdTaxonCategory[]
+  detail?: 'simple' | 'full'
+  hotspot?: boolean
+  includeProvisional?: boolean
+  maxResults?: number
+  r?: string[]
+  rank?: 'mrec' | 'create'
+  sppLocale?: string
+}
+
+/**
+ * Options for the hotspot endpoints
+ */
+export interface HotspotOptions {
+  back?: number
+  dist?: number
+}
+
+/**
+ * Options for the taxonomy endpoint
+ */
+export interface TaxonomyOptions {
+  cat?: EBirdTaxonCategory[]
+  locale?: string
+  species?: string[]
+  version?: string
+}
+
+/**
+ * Options for the region info endpoint
+ */
+export interface RegionInfoOptions {
+  regionNameFormat?: 'detailed' | 'detailednoqual' | 'full' | 'namequal' | 'nameonly' | 'revdetailed'
+  delim?: string
+}
+
 /**
  * API key validation state
  */
 export interface ApiKeyState {
-  apiKey: string
+  session?: ApiKeySession
   isValid: boolean
   error?: string
 } 
\ No newline at end of file